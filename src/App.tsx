@@ -1,26 +1,86 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import GameBoard from './components/GameBoard/GameBoard';
 import Leaderboard from './components/Leaderboard/Leaderboard';
 import Login from './components/Login/Login';
 import GameModeSelection from './components/GameModeSelection/GameModeSelection';
 import ActiveUsers from './components/ActiveUsers/ActiveUsers';
-import { saveUsername, loadUsername, saveGameMode, loadGameMode } from './utils/localStorage';
+import ConnectionStatus from './components/ConnectionStatus/ConnectionStatus';
+import ImportGame from './components/ImportGame/ImportGame';
+import Replay from './components/Replay/Replay';
+import MatchHistory from './components/MatchHistory/MatchHistory';
+import StorageNotice from './components/StorageNotice/StorageNotice';
+import PlayerProfile from './components/PlayerProfile/PlayerProfile';
+import ChallengePrompt from './components/ChallengePrompt/ChallengePrompt';
+import {
+  saveUsername,
+  loadUsername,
+  saveGameMode,
+  loadGameMode,
+  saveAiDifficulty,
+  loadAiDifficulty,
+  saveAnimationSpeed,
+  loadAnimationSpeed,
+  saveTimeControl,
+  loadTimeControl,
+  saveRoom,
+  loadRoom,
+  clearRoom,
+  clearGameMode,
+  clearGameState,
+} from './utils/localStorage';
+import { useGameConnection } from './hooks/useGameConnection';
+import { useChallenges } from './hooks/useChallenges';
+import { useRouter } from './hooks/useRouter';
+import { useSession } from './hooks/useSession';
+import { useReducedMotion } from './hooks/useReducedMotion';
+import { createLocalGame } from './utils/localGame';
+import { AI_DIFFICULTY_LABELS } from './utils/aiEngine';
+import { effectiveAnimationSpeed } from './utils/animation';
+import { parseGame, serializeGame } from './utils/notation';
+import { ROOM_ERROR_MESSAGES } from './utils/rooms';
+import { isOnlineGameMode } from './utils/protocol';
+import { Route, guardRoute, isOverlayRoute } from './utils/router';
+import { AiDifficulty, AnimationSpeed, GameMode, GameRecord, RoomRequest, SpectateTarget, TimeControl } from './types';
 import './App.css';
 
-type GameMode = 'friend' | 'computer' | null;
-
 const App: React.FC = () => {
   const isTestEnv = process.env.NODE_ENV === 'test';
-  const [username, setUsername] = useState<string | null>(isTestEnv ? null : loadUsername());
-  const [gameMode, setGameMode] = useState<GameMode>(isTestEnv ? null : loadGameMode());
-  const [websocket, setWebsocket] = useState<WebSocket | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-
-  const activeWsRef = React.useRef<WebSocket | null>(null);
-  const isUnloadingRef = React.useRef(false);
-  const didAutoReconnect = React.useRef(false);
+  const { route, navigate, back } = useRouter();
+  // Last full-screen route; profiles and replays open on top of it
+  const [screenRoute, setScreenRoute] = useState<Route>(() => (isOverlayRoute(route) ? { name: 'lobby' } : route));
+  const { session, notice: sessionNotice, signOut, dismissNotice } = useSession();
+  const username = session?.username ?? null;
+  const [gameMode, setGameMode] = useState<GameMode | null>(isTestEnv ? null : loadGameMode());
+  const [aiDifficulty, setAiDifficulty] = useState<AiDifficulty>(() => loadAiDifficulty() ?? 'medium');
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(loadTimeControl);
+  const [animationSpeed, setAnimationSpeed] = useState<AnimationSpeed>(() => loadAnimationSpeed() ?? 'normal');
+  const reducedMotion = useReducedMotion();
+  const boardAnimation = effectiveAnimationSpeed(animationSpeed, reducedMotion);
+  const [room, setRoom] = useState<RoomRequest | null>(isTestEnv ? null : loadRoom());
+  // Code the server assigned to a room we created
+  const [createdRoomCode, setCreatedRoomCode] = useState<string | null>(null);
+  const [roomError, setRoomError] = useState('');
+  // Live game being watched from the lobby
+  const [spectating, setSpectating] = useState<SpectateTarget | null>(null);
+  const [watchError, setWatchError] = useState('');
+  const { state: connection, channel, retry, cancelRetry } = useGameConnection({
+    username,
+    gameMode,
+    room,
+    timeControl,
+    spectate: spectating,
+  });
+  const localGame = useMemo(
+    () => {
+      if (!username) return null;
+      if (gameMode === 'local') return createLocalGame(username);
+      if (gameMode === 'ai') return createLocalGame(username, { aiDifficulty });
+      return null;
+    },
+    [username, gameMode, aiDifficulty]
+  );
 
-  // Save username to local storage
+  // Save username to local storage, to fill in the login form after a session expires
   useEffect(() => {
     if (username) saveUsername(username);
   }, [username]);
@@ -30,186 +90,396 @@ const App: React.FC = () => {
     if (gameMode) saveGameMode(gameMode);
   }, [gameMode]);
 
-  /**
-   * ✅ WebSocket connection logic with production-safe URL handling
-   */
-  const connectWebSocket = useCallback(
-    (username: string, mode: 'friend' | 'computer') => {
-
-      const MAX_RETRIES = 5;
-      const INITIAL_RETRY_DELAY = 1000;
-      let retryCount = 0;
-      let retryDelay = INITIAL_RETRY_DELAY;
-      let createdWs: WebSocket | null = null;
-
-      const connect = () => {
-        if (isUnloadingRef.current) return;
-
-        // Close existing socket if necessary
-        if (activeWsRef.current) {
-          const state = activeWsRef.current.readyState;
-          if (state === WebSocket.OPEN || state === WebSocket.CONNECTING) return;
-          try {
-            activeWsRef.current?.close();
-          } catch (e) {}
-          activeWsRef.current = null;
-        }
+  // Save offline AI difficulty
+  useEffect(() => {
+    saveAiDifficulty(aiDifficulty);
+  }, [aiDifficulty]);
 
-        // ✅ Determine candidate WebSocket URLs (try sequentially on retries)
-        const envWs = process.env.REACT_APP_WS_URL;
-        const host = window.location.hostname;
+  // Save the board animation speed
+  useEffect(() => {
+    saveAnimationSpeed(animationSpeed);
+  }, [animationSpeed]);
 
-        const candidates: string[] = [];
-        if (envWs) candidates.push(envWs);
+  // Save the online time control
+  useEffect(() => {
+    saveTimeControl(timeControl);
+  }, [timeControl]);
 
-        // Primary deployed backend (Railway)
-        candidates.push('wss://emitrr-assignment-backend-production.up.railway.app/ws');
+  // Save the private room; once created it is rejoined by code after a reload
+  useEffect(() => {
+    if (room?.action === 'create' && createdRoomCode) {
+      saveRoom({ action: 'join', code: createdRoomCode });
+    } else if (room) {
+      saveRoom(room);
+    } else {
+      clearRoom();
+    }
+  }, [room, createdRoomCode]);
 
-        // If frontend is served from same host (proxy), try same origin wss
-        if (host && host !== 'localhost' && host !== '127.0.0.1') {
-          candidates.push(`wss://${host}/ws`);
-        }
+  // 🔑 Private rooms
+  const enterRoom = useCallback((request: RoomRequest, { replace = false } = {}) => {
+    clearGameState();
+    setRoomError('');
+    setCreatedRoomCode(null);
+    setRoom(request);
+    setGameMode('friend');
+    navigate({ name: 'play', mode: 'friend' }, { replace });
+  }, [navigate]);
 
-        // Local dev fallback
-        candidates.push('ws://localhost:8080/ws');
-
-        // Choose a candidate based on current retry count so subsequent retries try next candidate
-        const candidateIndex = retryCount % candidates.length;
-  const wsUrl = candidates[candidateIndex];
-        const ws = new WebSocket(wsUrl);
-        createdWs = ws;
-        activeWsRef.current = ws;
-
-        ws.onopen = () => {
-          setIsConnected(true);
-          setWebsocket(ws);
-          retryCount = 0;
-          retryDelay = INITIAL_RETRY_DELAY;
-
-          const joinMessage = {
-            type: 'join',
-            payload: { username, gameMode: mode },
-          };
-
-          setTimeout(() => {
-            if (ws.readyState === WebSocket.OPEN) {
-              ws.send(JSON.stringify(joinMessage));
-              window.dispatchEvent(new CustomEvent('game:join'));
-            }
-          }, 100);
-        };
-        ws.onerror = () => {
-          setIsConnected(false);
-        };
-
-        ws.onclose = (event) => {
-          if (isUnloadingRef.current) return;
-          if (activeWsRef.current !== ws) return;
-
-          setIsConnected(false);
-          setWebsocket(null);
-          activeWsRef.current = null;
-
-          if (retryCount < MAX_RETRIES) {
-            retryCount++;
-            retryDelay *= 2;
-            // Small delay before next attempt - the connect() function will pick the next candidateURL
-            setTimeout(connect, retryDelay);
-          } else {
-            alert('Unable to connect to game server. Please try again later.');
-          }
-        };
-      };
-
-      connect();
-
-      // Cleanup handler
-      return () => {
-        if (activeWsRef.current === createdWs) {
-          try {
-            activeWsRef.current?.close();
-          } catch (e) {}
-          activeWsRef.current = null;
-        }
-      };
-    },
-    []
-  );
+  const resetGame = useCallback(() => {
+    clearGameState();
+    clearGameMode();
+    setRoom(null);
+    setCreatedRoomCode(null);
+    setGameMode(null);
+  }, []);
+
+  // Back to mode selection, e.g. after cancelling matchmaking or a room error
+  const leaveGame = useCallback((error = '') => {
+    resetGame();
+    setRoomError(error);
+    navigate({ name: 'lobby' }, { replace: true });
+  }, [resetGame, navigate]);
 
-  // ✅ Cleanup WebSocket on component unmount
   useEffect(() => {
-    return () => {
-      if (activeWsRef.current && activeWsRef.current === websocket) {
-        try {
-          activeWsRef.current?.close();
-        } catch (e) {}
-        activeWsRef.current = null;
+    if (!room) return;
+    return channel.subscribe((message) => {
+      if (message.type === 'roomCreated') {
+        setCreatedRoomCode(message.payload.roomCode);
+      } else if (message.type === 'roomError') {
+        const { code, message: serverMessage } = message.payload;
+        leaveGame(code === 'unknown' ? serverMessage : ROOM_ERROR_MESSAGES[code]);
       }
-    };
-  }, [websocket]);
+    });
+  }, [channel, room, leaveGame]);
 
-  // ✅ Close WebSocket before page unload
+  // 👁️ Watching a game that has ended or never existed is answered with an
+  // error instead of a game state; go back to the lobby and say why
   useEffect(() => {
-    const handleBeforeUnload = () => {
-      isUnloadingRef.current = true;
-      if (activeWsRef.current && activeWsRef.current.readyState === WebSocket.OPEN) {
-        try {
-          activeWsRef.current?.close(1000, 'page unload');
-        } catch (e) {}
+    if (!spectating) return;
+    let watching = false;
+    return channel.subscribe((message) => {
+      if (message.type === 'gameStart' || message.type === 'gameState') {
+        watching = true;
+      } else if (message.type === 'error' && !watching) {
+        setWatchError(`Can't watch that game: ${message.payload.message}`);
+        navigate({ name: 'lobby' }, { replace: true });
       }
-    };
-    window.addEventListener('beforeunload', handleBeforeUnload);
-    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, []);
+    });
+  }, [channel, spectating, navigate]);
 
-  // ✅ Handlers for login and game mode selection
-  const handleLogin = (name: string) => setUsername(name);
+  // ⚔️ Direct challenges; an accepted one puts both players in a reserved room
+  const challenges = useChallenges({
+    channel,
+    username,
+    enabled: !!username && !spectating && (!gameMode || isOnlineGameMode(gameMode)),
+    timeControl,
+    onAccepted: (code, opponent) => enterRoom({ action: 'join', code, opponent }),
+  });
 
-  const handleModeSelection = (mode: 'friend' | 'computer') => {
-    setGameMode(mode);
-    if (username) connectWebSocket(username, mode);
-  };
+  // Challenge rooms are already reserved for the opponent, so there is nothing to share
+  const inviteCode = room
+    ? (room.action === 'join' ? (room.opponent ? undefined : room.code) : createdRoomCode)
+    : undefined;
 
-  // ✅ Auto reconnect using saved username + mode
+  // 🧭 The route decides which game, if any, is open, so back/forward,
+  // typed URLs and refreshes all land on the right screen
+  const gameModeRef = useRef(gameMode);
+  gameModeRef.current = gameMode;
   useEffect(() => {
-    if (didAutoReconnect.current) return;
-    didAutoReconnect.current = true;
-    if (username && gameMode && !websocket && !isConnected) {
-      connectWebSocket(username, gameMode);
+    const redirect = guardRoute(route, !!username);
+    if (redirect) {
+      navigate(redirect, { replace: true });
+      return;
     }
-  }, [username, gameMode, websocket, isConnected, connectWebSocket]);
+    if (!isOverlayRoute(route)) setScreenRoute(route);
 
-  // ✅ UI rendering
-  if (!username) return <Login onLogin={handleLogin} />;
-  if (!gameMode) return <GameModeSelection onSelectMode={handleModeSelection} />;
-  if (!websocket) return <div className="app"><div className="game-container">Connecting...</div></div>;
+    const mode = gameModeRef.current;
+    switch (route.name) {
+      case 'room':
+        if (route.code) {
+          enterRoom({ action: 'join', code: route.code }, { replace: true });
+        } else {
+          setRoomError('This invite link is invalid.');
+          navigate({ name: 'lobby' }, { replace: true });
+        }
+        break;
+      case 'play':
+        setSpectating(null);
+        if (mode !== route.mode) {
+          resetGame();
+          setGameMode(route.mode);
+        }
+        break;
+      case 'game':
+        // Someone else's game, or one that has since ended
+        setSpectating(null);
+        if (!isOnlineGameMode(mode)) navigate({ name: 'lobby' }, { replace: true });
+        break;
+      case 'watch': {
+        const { player, gameId } = route;
+        if (mode) resetGame();
+        setWatchError('');
+        setSpectating(current => (current?.player === player && current.gameId === gameId
+          ? current
+          : { player, ...(gameId ? { gameId } : {}) }));
+        break;
+      }
+      case 'lobby':
+      case 'leaderboard':
+        if (mode) resetGame();
+        setSpectating(null);
+        break;
+      default:
+        // Profiles and replays leave the screen beneath them alone, and a game
+        // interrupted by an expired session is resumed after logging back in
+        break;
+    }
+  }, [route, username, navigate, enterRoom, resetGame]);
 
-  return (
-    <div className="app">
-      <div className="game-container">
-        <header>
-          <h1>Connect 4</h1>
-          <div className="connection-status">
-            {isConnected ? <span className="connected">Connected</span> : <span className="disconnected">Disconnected</span>}
+  // 🎮 Once the server names the game, its route becomes #/game/ID
+  const routeRef = useRef(route);
+  routeRef.current = route;
+  useEffect(() => {
+    if (!isOnlineGameMode(gameMode) || spectating) return;
+    return channel.subscribe((message) => {
+      if ((message.type !== 'gameStart' && message.type !== 'gameState') || !message.gameId) return;
+      const { name } = routeRef.current;
+      if (name === 'play' || name === 'game') {
+        navigate({ name: 'game', gameId: message.gameId }, { replace: true });
+      }
+    });
+  }, [channel, gameMode, spectating, navigate]);
+
+  // 🎞️ Replays opened from share links, imports or finished games
+  const [showImport, setShowImport] = useState(false);
+  const [importError, setImportError] = useState('');
+
+  const replay = useMemo(() => {
+    if (route.name !== 'replay') return null;
+    try {
+      return { record: parseGame(route.notation) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : '' };
+    }
+  }, [route]);
+
+  useEffect(() => {
+    if (replay?.error === undefined) return;
+    setImportError(`This replay link is invalid. ${replay.error}`);
+    setShowImport(true);
+    navigate(screenRoute, { replace: true });
+  }, [replay, screenRoute, navigate]);
+
+  const openReplay = (record: GameRecord) => {
+    setShowImport(false);
+    setImportError('');
+    navigate({ name: 'replay', notation: serializeGame(record) });
+  };
+
+  const closeImport = () => {
+    setShowImport(false);
+    setImportError('');
+  };
+
+  const closeReplay = () => back(screenRoute);
+
+  // 👤 Player profiles
+  const profileUser = route.name === 'profile' ? route.username : null;
+  const selectPlayer = (name: string) => navigate({ name: 'profile', username: name });
+  const closeProfile = useCallback(() => back(screenRoute), [back, screenRoute]);
+
+  // ✅ Handlers for the session and game mode selection. Logging in starts a
+  // session, and the login guard then forwards to the page that asked for it.
+  const handleLogout = () => {
+    resetGame();
+    setSpectating(null);
+    signOut();
+  };
+
+  const handleModeSelection = (mode: GameMode) => {
+    setRoomError('');
+    navigate({ name: 'play', mode });
+  };
+
+  // ✅ UI rendering
+  const renderScreen = () => {
+    if (!username) {
+      return <Login initialUsername={loadUsername()} notice={sessionNotice} onDismissNotice={dismissNotice} />;
+    }
+    if (spectating) {
+      return (
+        <div className="app">
+          <div className="game-container">
+            <header>
+              <h1>Connect 4</h1>
+              <ConnectionStatus state={connection} onRetry={retry} onCancel={cancelRetry} />
+            </header>
+            <main>
+              {connection.hasOpened ? (
+                <div className="game-section">
+                  <GameBoard
+                    key={`${spectating.gameId ?? ''}:${spectating.player}`}
+                    channel={channel}
+                    username={username}
+                    spectator
+                    onLeaveSpectate={() => back({ name: 'lobby' })}
+                    animationSpeed={boardAnimation}
+                  />
+                </div>
+              ) : connection.status === 'failed' ? (
+                <div className="game-container">Unable to reach the game server.</div>
+              ) : (
+                <div className="game-container">Connecting to server...</div>
+              )}
+            </main>
           </div>
-        </header>
-        <main>
-          {websocket.readyState === WebSocket.OPEN ? (
-            <div className="game-section">
-              <GameBoard websocket={websocket} username={username} />
+        </div>
+      );
+    }
+    if (!gameMode && screenRoute.name === 'leaderboard') {
+      return (
+        <div className="app">
+          <div className="game-container">
+            <header>
+              <h1>Connect 4</h1>
+              <button type="button" className="btn btn-secondary btn-sm" onClick={() => back({ name: 'lobby' })}>
+                ← Back to lobby
+              </button>
+            </header>
+            <main>
+              <Leaderboard
+                channel={channel}
+                connected={connection.status === 'open'}
+                username={username}
+                onSelectPlayer={selectPlayer}
+              />
+            </main>
+          </div>
+        </div>
+      );
+    }
+    if (!gameMode) {
+      return (
+        <GameModeSelection
+          onSelectMode={handleModeSelection}
+          aiDifficulty={aiDifficulty}
+          onAiDifficultyChange={setAiDifficulty}
+          onImportGame={() => setShowImport(true)}
+          timeControl={timeControl}
+          onTimeControlChange={setTimeControl}
+          animationSpeed={animationSpeed}
+          onAnimationSpeedChange={setAnimationSpeed}
+          reducedMotion={reducedMotion}
+          onCreateRoom={() => enterRoom({ action: 'create' })}
+          onJoinRoom={(code) => enterRoom({ action: 'join', code })}
+          roomError={roomError}
+          onOpenLeaderboard={() => navigate({ name: 'leaderboard' })}
+          username={username}
+          guest={session?.guest ?? true}
+          onLogout={handleLogout}
+        >
+          <ActiveUsers
+            channel={channel}
+            connected={connection.status === 'open'}
+            username={username}
+            challenges={challenges}
+            onWatchGame={(target) => navigate({ name: 'watch', ...target })}
+            watchError={watchError}
+          />
+        </GameModeSelection>
+      );
+    }
+
+    if (localGame) {
+      return (
+        <div className="app">
+          <div className="game-container">
+            <header>
+              <h1>Connect 4</h1>
+              <div className="connection-status">
+                <span className="offline">
+                  {gameMode === 'ai' ? `Offline AI · ${AI_DIFFICULTY_LABELS[aiDifficulty]}` : 'Pass and Play'}
+                </span>
+              </div>
+            </header>
+            <main>
+              <div className="game-section">
+                <GameBoard
+                  channel={localGame}
+                  username={username}
+                  hotSeat={gameMode === 'local'}
+                  onExitGame={leaveGame}
+                  animationSpeed={boardAnimation}
+                />
+              </div>
               <div className="side-panel">
-                <ActiveUsers />
-                <Leaderboard />
+                <MatchHistory username={username} onOpenReplay={openReplay} />
               </div>
-            </div>
-          ) : websocket.readyState === WebSocket.CONNECTING ? (
-            <div className="game-container">Connecting to server...</div>
-          ) : (
-            <div className="game-container">WebSocket not ready (state: {websocket.readyState})</div>
-          )}
-        </main>
+            </main>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="app">
+        <div className="game-container">
+          <header>
+            <h1>Connect 4</h1>
+            <ConnectionStatus state={connection} onRetry={retry} onCancel={cancelRetry} />
+          </header>
+          <main>
+            {connection.hasOpened ? (
+              <div className="game-section">
+                <GameBoard
+                  channel={channel}
+                  username={username}
+                  inviteCode={inviteCode}
+                  onLeaveQueue={leaveGame}
+                  onExitGame={leaveGame}
+                  animationSpeed={boardAnimation}
+                />
+                <div className="side-panel">
+                  <ActiveUsers channel={channel} connected={connection.status === 'open'} username={username} />
+                  <Leaderboard
+                    channel={channel}
+                    connected={connection.status === 'open'}
+                    username={username}
+                    onSelectPlayer={selectPlayer}
+                  />
+                  <MatchHistory username={username} onOpenReplay={openReplay} />
+                </div>
+              </div>
+            ) : connection.status === 'failed' ? (
+              <div className="game-container">Unable to reach the game server.</div>
+            ) : (
+              <div className="game-container">Connecting to server...</div>
+            )}
+          </main>
+        </div>
       </div>
-    </div>
+    );
+  };
+
+  return (
+    <>
+      {renderScreen()}
+      {showImport && (
+        <ImportGame key={importError} onImport={openReplay} onClose={closeImport} initialError={importError} />
+      )}
+      {profileUser && (
+        <PlayerProfile
+          username={profileUser}
+          viewer={username}
+          onSelectPlayer={(name) => navigate({ name: 'profile', username: name }, { replace: true })}
+          onClose={closeProfile}
+        />
+      )}
+      {replay?.record && <Replay record={replay.record} onClose={closeReplay} />}
+      <ChallengePrompt challenges={challenges} />
+      <StorageNotice />
+    </>
   );
 };
 
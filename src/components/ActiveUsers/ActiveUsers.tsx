@@ -1,74 +1,136 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
+import { LobbyChallenges } from '../../hooks/useChallenges';
+import { useApi } from '../../hooks/useApi';
+import { useLiveUpdates } from '../../hooks/useLiveUpdates';
+import { activeUsersResource } from '../../utils/api';
+import { applyPresence, filterActiveUsers, groupLiveGames } from '../../utils/lobby';
+import { GameChannel } from '../../utils/protocol';
+import { ActiveUser, SpectateTarget } from '../../types';
 import './ActiveUsers.css';
 
-interface ActiveUser {
-  username: string;
-  status: 'waiting' | 'in_game';
+interface ActiveUsersProps {
+  // Game socket for presence pushes, and whether it is open
+  channel?: GameChannel;
+  connected?: boolean;
+  // Our own row is marked and cannot be challenged
+  username?: string | null;
+  // Offers a Challenge button on waiting players when provided
+  challenges?: LobbyChallenges;
+  // Lists live games with a Watch button when provided
+  onWatchGame?: (target: SpectateTarget) => void;
+  // Why the last game we tried to watch could not be shown
+  watchError?: string;
 }
 
-const ActiveUsers: React.FC = () => {
-  const [activeUsers, setActiveUsers] = useState<ActiveUser[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+const ActiveUsers: React.FC<ActiveUsersProps> = ({ channel, connected, username, challenges, onWatchGame, watchError }) => {
+  const [search, setSearch] = useState('');
+  const { data, error, loading, reload, mutate } = useApi(activeUsersResource, { staleTimeMs: 1000 });
+  const activeUsers = useMemo(() => data ?? [], [data]);
 
-  useEffect(() => {
-    const fetchActiveUsers = async () => {
-      try {
-        const apiBase = process.env.REACT_APP_API_URL || 'http://localhost:8080';
-        const response = await fetch(`${apiBase.replace(/\/$/, '')}/active-users`);
-        if (!response.ok) {
-          throw new Error('Failed to fetch active users');
-        }
-        const data = await response.json();
-        setActiveUsers(data);
-        setError(null);
-      } catch (err) {
-        setError('Failed to load active users');
-      } finally {
-        setLoading(false);
-      }
-    };
+  // Presence changes are pushed when the server supports it; otherwise poll
+  useLiveUpdates({
+    topic: 'presence',
+    channel,
+    connected,
+    load: reload,
+    onPush: (message) => {
+      if (message.type === 'presence') mutate(prev => applyPresence(prev ?? [], message.payload));
+    },
+    pollIntervalMs: 2000,
+  });
 
-    fetchActiveUsers();
-    // Refresh every 2 seconds for immediate updates when players join
-    const interval = setInterval(fetchActiveUsers, 2000);
+  const liveGames = useMemo(() => groupLiveGames(activeUsers), [activeUsers]);
+  const visibleUsers = useMemo(() => filterActiveUsers(activeUsers, search), [activeUsers, search]);
+  const outgoing = challenges?.outgoing ?? null;
 
-    // Also listen for game events to refresh immediately
-    const handleGameEvent = () => {
-      fetchActiveUsers();
-    };
-    window.addEventListener('game:start', handleGameEvent);
-    window.addEventListener('game:join', handleGameEvent);
+  const renderAction = (user: ActiveUser) => {
+    if (!challenges || user.status !== 'waiting' || user.username === username) return null;
+    if (outgoing?.to === user.username) {
+      const seconds = Math.max(0, Math.ceil((outgoing.expiresAt - challenges.now) / 1000));
+      return (
+        <span className="challenge-pending">
+          Waiting… {seconds}s
+          <button type="button" className="btn btn-secondary btn-sm" onClick={challenges.cancel}>
+            Cancel
+          </button>
+        </span>
+      );
+    }
+    return (
+      <button
+        type="button"
+        className="btn btn-primary btn-sm"
+        onClick={() => challenges.challenge(user.username)}
+        disabled={outgoing !== null}
+      >
+        ⚔️ Challenge
+      </button>
+    );
+  };
 
-    return () => {
-      clearInterval(interval);
-      window.removeEventListener('game:start', handleGameEvent);
-      window.removeEventListener('game:join', handleGameEvent);
-    };
-  }, []);
-
-  if (loading) {
-    return <div className="active-users-loading">Loading active users...</div>;
+  if (error && !data) {
+    return <div className="active-users-error">Failed to load active users</div>;
   }
 
-  if (error) {
-    return <div className="active-users-error">{error}</div>;
+  if (loading && !data) {
+    return <div className="active-users-loading">Loading active users...</div>;
   }
 
   return (
     <div className="active-users">
       <h3>Active Players</h3>
       <div className="active-users-count">
-        <div className="count-display">
-          <span className="count-number">{activeUsers.length}</span>
-          <span className="count-label">
-            {activeUsers.length === 1 ? 'Player' : 'Players'}
-          </span>
-        </div>
-        {activeUsers.length === 0 && (
-          <div className="no-users">No active players</div>
-        )}
+        <span className="count-number">{activeUsers.length}</span>
+        <span className="count-label">
+          {activeUsers.length === 1 ? 'Player' : 'Players'} online
+        </span>
       </div>
+      {activeUsers.length === 0 ? (
+        <div className="no-users">No active players</div>
+      ) : (
+        <>
+          <input
+            type="search"
+            className="active-users-search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search players"
+            aria-label="Search players"
+          />
+          <ul className="active-users-list">
+            {visibleUsers.length === 0 && <li className="no-users">No players match “{search.trim()}”</li>}
+            {visibleUsers.map(user => (
+              <li key={user.username} className={`active-user${user.username === username ? ' me' : ''}`}>
+                <span className="active-user-name">
+                  {user.username}
+                  {user.username === username && ' (you)'}
+                </span>
+                <span className={`status-badge ${user.status}`}>
+                  {user.status === 'waiting' ? 'Waiting' : 'In game'}
+                </span>
+                {renderAction(user)}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      {challenges?.notice && <p className="challenge-notice" role="status">{challenges.notice}</p>}
+      {watchError && <p className="challenge-notice" role="alert">{watchError}</p>}
+      {onWatchGame && liveGames.length > 0 && (
+        <div className="live-games">
+          <h4>Live games</h4>
+          <ul>
+            {liveGames.map(game => (
+              <li key={game.key} className="live-game">
+                <span className="live-game-players">{game.players.join(' vs ')}</span>
+                <button className="btn btn-secondary btn-sm" onClick={() => onWatchGame(game.target)}>
+                  👁️ Watch
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
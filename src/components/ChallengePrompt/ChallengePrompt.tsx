@@ -0,0 +1,38 @@
+import React from 'react';
+import { LobbyChallenges } from '../../hooks/useChallenges';
+import { describeTimeControl } from '../../utils/timeControl';
+import './ChallengePrompt.css';
+
+interface ChallengePromptProps {
+  challenges: LobbyChallenges;
+}
+
+// Accept/decline card for the oldest challenge waiting on us
+const ChallengePrompt: React.FC<ChallengePromptProps> = ({ challenges }) => {
+  const [challenge, ...queued] = challenges.incoming;
+  if (!challenge) return null;
+
+  const seconds = Math.max(0, Math.ceil((challenge.expiresAt - challenges.now) / 1000));
+
+  return (
+    <div className="challenge-prompt" role="alertdialog" aria-labelledby="challenge-prompt-title">
+      <p id="challenge-prompt-title" className="challenge-prompt-title">
+        ⚔️ <strong>{challenge.from}</strong> challenges you!
+      </p>
+      <p className="challenge-prompt-details">
+        {challenge.timeControl ? describeTimeControl(challenge.timeControl) : 'No clock'} · expires in {seconds}s
+        {queued.length > 0 && ` · ${queued.length} more waiting`}
+      </p>
+      <div className="challenge-prompt-actions">
+        <button type="button" className="btn btn-primary btn-sm" onClick={() => challenges.respond(challenge.id, true)}>
+          Accept
+        </button>
+        <button type="button" className="btn btn-secondary btn-sm" onClick={() => challenges.respond(challenge.id, false)}>
+          Decline
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChallengePrompt;
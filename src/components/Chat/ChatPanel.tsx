@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GameChat } from '../../hooks/useGameChat';
+import { EMOTE_IDS } from '../../utils/protocol';
+import { EMOTE_SYMBOLS, MAX_CHAT_LENGTH, filterProfanity } from '../../utils/chat';
+import './ChatPanel.css';
+
+interface ChatPanelProps {
+  chat: GameChat;
+  // Why chat is off (e.g. playing a bot); the panel shows this instead
+  disabledReason?: string;
+}
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ chat, disabledReason }) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLUListElement>(null);
+  const { messages, unread, isOpen, setOpen, muted, filterEnabled, notice } = chat;
+  const visible = muted ? messages.filter(message => message.own) : messages;
+
+  // Keep the newest message in view
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [visible.length, isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (chat.sendMessage(draft)) setDraft('');
+  };
+
+  return (
+    <div className={`chat-panel${isOpen ? ' open' : ''}`}>
+      <button
+        type="button"
+        className="chat-toggle"
+        onClick={() => setOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        💬 Chat
+        {unread > 0 && !isOpen && (
+          <span className="chat-unread" aria-label={`${unread} unread`}>{unread > 9 ? '9+' : unread}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        disabledReason ? (
+          <p className="chat-disabled">{disabledReason}</p>
+        ) : (
+          <div className="chat-body">
+            <div className="chat-options">
+              <label>
+                <input type="checkbox" checked={muted} onChange={chat.toggleMute} /> Mute opponent
+              </label>
+              <label>
+                <input type="checkbox" checked={filterEnabled} onChange={chat.toggleFilter} /> Filter language
+              </label>
+            </div>
+
+            <ul className="chat-messages" ref={listRef} aria-live="polite">
+              {visible.length === 0 && <li className="chat-empty">Say hi to your opponent 👋</li>}
+              {visible.map(message => (
+                <li key={message.id} className={`chat-message${message.own ? ' own' : ''}`}>
+                  <span className="chat-author">{message.own ? 'You' : message.from}</span>
+                  <span className="chat-text">{filterEnabled ? filterProfanity(message.text) : message.text}</span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="chat-emotes" role="group" aria-label="Quick reactions">
+              {EMOTE_IDS.map(emote => (
+                <button key={emote} type="button" className="chat-emote" onClick={() => chat.sendEmote(emote)}>
+                  {EMOTE_SYMBOLS[emote]}
+                </button>
+              ))}
+            </div>
+
+            <form className="chat-form" onSubmit={handleSubmit}>
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                maxLength={MAX_CHAT_LENGTH}
+                placeholder="Type a message"
+                aria-label="Chat message"
+              />
+              <button type="submit" className="btn btn-primary btn-sm" disabled={!draft.trim()}>
+                Send
+              </button>
+            </form>
+            {notice && <p className="chat-notice" role="status">{notice}</p>}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ChatPanel;
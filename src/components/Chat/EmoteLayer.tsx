@@ -0,0 +1,20 @@
+import React from 'react';
+import { EmoteBurst } from '../../hooks/useGameChat';
+import { EMOTE_SYMBOLS } from '../../utils/chat';
+
+interface EmoteLayerProps {
+  emotes: EmoteBurst[];
+}
+
+// Sits over the board; each reaction removes itself when its animation ends
+const EmoteLayer: React.FC<EmoteLayerProps> = ({ emotes }) => (
+  <div className="emote-layer" aria-hidden="true">
+    {emotes.map(burst => (
+      <span key={burst.id} className={`emote-burst ${burst.own ? 'own' : 'theirs'}`}>
+        {EMOTE_SYMBOLS[burst.emote]}
+      </span>
+    ))}
+  </div>
+);
+
+export default EmoteLayer;
@@ -0,0 +1,58 @@
+import React, { useState, useEffect } from 'react';
+import { ConnectionState } from '../../utils/connection';
+import './ConnectionStatus.css';
+
+interface ConnectionStatusProps {
+  state: ConnectionState;
+  onRetry: () => void;
+  onCancel: () => void;
+}
+
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ state, onRetry, onCancel }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick while a retry is pending so the countdown stays current
+  useEffect(() => {
+    if (!state.nextRetryAt) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [state.nextRetryAt]);
+
+  const secondsToRetry = state.nextRetryAt
+    ? Math.max(0, Math.ceil((state.nextRetryAt - now) / 1000))
+    : 0;
+
+  return (
+    <div className="connection-status-group">
+      <div className="connection-status">
+        {state.status === 'open' && <span className="connected">Connected</span>}
+        {state.status === 'connecting' && <span className="connecting">Connecting</span>}
+        {state.status === 'reconnecting' && <span className="connecting">Reconnecting</span>}
+        {(state.status === 'idle' || state.status === 'failed') && (
+          <span className="disconnected">Disconnected</span>
+        )}
+      </div>
+
+      {state.status === 'reconnecting' && (
+        <div className="connection-detail">
+          <span>
+            Attempt {state.attempt}/{state.maxAttempts}
+            {state.nextRetryAt && ` in ${secondsToRetry}s`}
+          </span>
+          <button className="btn btn-secondary btn-sm" onClick={onRetry}>Retry now</button>
+          <button className="btn btn-secondary btn-sm" onClick={onCancel}>Cancel</button>
+        </div>
+      )}
+
+      {state.status === 'failed' && (
+        <div className="connection-detail connection-failed">
+          <span>Unable to connect to game server{state.error ? `: ${state.error}` : ''}</span>
+          <button className="btn btn-primary btn-sm" onClick={onRetry}>Retry</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionStatus;
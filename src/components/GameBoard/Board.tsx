@@ -0,0 +1,125 @@
+import React, { useId, useMemo, useState } from 'react';
+import { AnimationSpeed, BoardPosition } from '../../types';
+import { dropDurationMs } from '../../utils/animation';
+import { getDropRow } from '../../utils/gameRules';
+import './GameBoard.css';
+
+interface BoardProps {
+  board: number[][];
+  winningCells?: BoardPosition[];
+  highlightedCell?: BoardPosition;
+  // Omit for read-only boards
+  onColumnClick?: (column: number) => void;
+  // Screen reader name for the grid
+  label?: string;
+  // Keyboard play: the column the cursor is on and the board's key handler
+  cursorColumn?: number;
+  onKeyDown?: (e: React.KeyboardEvent) => void;
+  getCellLabel?: (row: number, column: number, value: number) => string;
+  // Whose ghost disc previews the landing cell of the hovered column; omit
+  // when it is not this screen's move
+  previewPlayer?: number;
+  // Disc that just landed, animated falling in at `animationSpeed`
+  droppedCell?: BoardPosition;
+  animationSpeed?: AnimationSpeed;
+  // The opponent's most recent disc
+  markedCell?: BoardPosition;
+}
+
+const cellKey = (row: number, column: number) => `${row}-${column}`;
+
+const isCell = (position: BoardPosition | undefined, row: number, column: number) =>
+  position?.row === row && position?.column === column;
+
+const defaultCellLabel = (row: number, column: number, value: number) =>
+  `Row ${row + 1}, column ${column + 1}, ${value === 0 ? 'empty' : `Player ${value}'s disc`}`;
+
+const Board: React.FC<BoardProps> = ({
+  board,
+  winningCells,
+  highlightedCell,
+  onColumnClick,
+  label = 'Connect 4 board',
+  cursorColumn,
+  onKeyDown,
+  getCellLabel = defaultCellLabel,
+  previewPlayer,
+  droppedCell,
+  animationSpeed = 'off',
+  markedCell,
+}) => {
+  const gridId = useId();
+  const [hoverColumn, setHoverColumn] = useState<number | null>(null);
+  const [focused, setFocused] = useState(false);
+  const winning = useMemo(
+    () => new Set((winningCells ?? []).map(({ row, column }) => cellKey(row, column))),
+    [winningCells]
+  );
+
+  // The cursor rests where a disc would land, or on the top of a full column
+  const keyboard = cursorColumn !== undefined && !!onKeyDown;
+  const cursorRow = keyboard ? Math.max(0, getDropRow(board, cursorColumn)) : -1;
+  const cellId = (row: number, column: number) => `${gridId}-${cellKey(row, column)}`;
+
+  // Ghost disc where a drop into the pointed-at column would land: the
+  // hovered column, or the keyboard cursor while the board has focus
+  const previewColumn = hoverColumn ?? (keyboard && focused ? cursorColumn ?? null : null);
+  const previewRow = previewPlayer && onColumnClick && previewColumn !== null
+    ? getDropRow(board, previewColumn)
+    : -1;
+
+  // The falling disc starts just above the top row
+  const dropMs = droppedCell ? dropDurationMs(droppedCell.row + 1, animationSpeed) : 0;
+
+  return (
+    <div
+      className={`board${onColumnClick ? '' : ' read-only'}`}
+      role="grid"
+      aria-label={label}
+      aria-readonly={!onColumnClick}
+      aria-rowcount={board.length}
+      aria-colcount={board[0]?.length ?? 0}
+      tabIndex={keyboard ? 0 : undefined}
+      aria-activedescendant={keyboard ? cellId(cursorRow, cursorColumn) : undefined}
+      onKeyDown={keyboard ? onKeyDown : undefined}
+      onFocus={() => setFocused(true)}
+      onBlur={() => setFocused(false)}
+      onMouseLeave={() => setHoverColumn(null)}
+    >
+      {board.map((row, rIdx) => (
+        <div key={rIdx} className="row" role="row">
+          {row.map((cell, cIdx) => {
+            const classes = ['cell'];
+            if (cell === 1) classes.push('player1');
+            if (cell === 2) classes.push('player2');
+            if (winning.has(cellKey(rIdx, cIdx))) classes.push('winning');
+            if (isCell(highlightedCell, rIdx, cIdx)) classes.push('last-move');
+            if (isCell(markedCell, rIdx, cIdx)) classes.push('opponent-move');
+            if (cIdx === previewColumn && rIdx === previewRow) classes.push('ghost', `ghost-player${previewPlayer}`);
+            const dropping = dropMs > 0 && isCell(droppedCell, rIdx, cIdx) && cell !== 0;
+            if (dropping) classes.push('dropping');
+            if (keyboard && cIdx === cursorColumn) classes.push('cursor-column');
+            if (keyboard && cIdx === cursorColumn && rIdx === cursorRow) classes.push('cursor');
+            return (
+              <div
+                key={cellKey(rIdx, cIdx)}
+                id={cellId(rIdx, cIdx)}
+                role="gridcell"
+                aria-label={getCellLabel(rIdx, cIdx, cell)}
+                aria-selected={keyboard ? cIdx === cursorColumn && rIdx === cursorRow : undefined}
+                className={classes.join(' ')}
+                style={dropping
+                  ? { '--drop-rows': rIdx + 1, '--drop-ms': `${dropMs}ms` } as React.CSSProperties
+                  : undefined}
+                onClick={onColumnClick ? () => onColumnClick(cIdx) : undefined}
+                onMouseEnter={onColumnClick ? () => setHoverColumn(cIdx) : undefined}
+              />
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Board;
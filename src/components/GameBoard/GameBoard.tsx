@@ -1,54 +1,106 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import './GameBoard.css';
 import {
   saveGameState,
   loadGameState,
   clearGameState,
-  clearGameMode,
   StoredGameState
 } from '../../utils/localStorage';
+import { GameChannel, createEmptyBoard, decodeGameState, toLocalTime } from '../../utils/protocol';
+import { canPlayMove, findWinningLine, getColumnCount, getPlayerNumber } from '../../utils/gameRules';
+import { announceGameState } from '../../utils/announcements';
+import { findOpponentMove } from '../../utils/animation';
+import { addMatch, createMatchEntry } from '../../utils/matchHistory';
+import { AnimationSpeed, GameRecord, GameResult, GameState, Move } from '../../types';
 import GameFinished from '../GameFinished/GameFinished';
+import Board from './Board';
+import Replay from '../Replay/Replay';
+import WaitingOverlay from './WaitingOverlay';
+import PlayerClocks from './PlayerClocks';
+import ChatPanel from '../Chat/ChatPanel';
+import EmoteLayer from '../Chat/EmoteLayer';
+import { useGameChat } from '../../hooks/useGameChat';
+import { useGameAccessibility } from '../../hooks/useGameAccessibility';
 
-interface GameState {
-  board: number[][];
-  currentTurn: number;
-  status: 'waiting' | 'in_progress' | 'completed' | 'draw';
-  winner?: { username: string; id?: string; isBot?: boolean };
-  player1?: { username: string; id?: string; isBot?: boolean };
-  player2?: { username: string; id?: string; isBot?: boolean };
-  lastMove?: { row: number; column: number; player: number };
-}
+const countDiscs = (board: number[][]) =>
+  board.reduce((total, row) => total + row.filter(cell => cell !== 0).length, 0);
+
+// Fold an incoming state into the move list. Duplicate frames are ignored and
+// a board with fewer discs than recorded moves means a new game has begun.
+const recordMove = (moves: Move[], state: GameState): Move[] => {
+  const discs = countDiscs(state.board);
+  if (discs === 0) return [];
+  if (discs < moves.length) return state.lastMove ? [state.lastMove] : [];
+  const { lastMove } = state;
+  if (!lastMove || moves.some(m => m.row === lastMove.row && m.column === lastMove.column)) {
+    return moves;
+  }
+  return [...moves, lastMove];
+};
+
+// How long to wait for an answer if the server does not say
+const REMATCH_TIMEOUT_MS = 30000;
+
+type RematchState =
+  | { status: 'idle' }
+  | { status: 'requested'; deadline: number }
+  | { status: 'incoming'; from: string; deadline: number | null }
+  // Waiting for the server to start the new game
+  | { status: 'accepted'; deadline: number }
+  | { status: 'cancelled'; message: string }
+  | { status: 'opponentLeft' };
+
+const IDLE_REMATCH: RematchState = { status: 'idle' };
 
 interface GameBoardProps {
-  websocket: WebSocket;
+  channel: GameChannel;
   username: string;
+  // Both players share this device, so moves are made for whoever's turn it is
+  hotSeat?: boolean;
+  // Private room invite code (null while it is being created); unset for public games
+  inviteCode?: string | null;
+  // Called after leaving matchmaking, to return to mode selection
+  onLeaveQueue?: () => void;
+  // Called after leaving a finished game, likewise
+  onExitGame?: () => void;
+  // Watching someone else's game: read-only, nothing saved or archived
+  spectator?: boolean;
+  onLeaveSpectate?: () => void;
+  // How fast dropped discs fall, already 'off' under reduced motion
+  animationSpeed?: AnimationSpeed;
 }
 
-const GameBoard: React.FC<GameBoardProps> = ({ websocket, username }) => {
+const GameBoard: React.FC<GameBoardProps> = ({
+  channel,
+  username,
+  hotSeat = false,
+  inviteCode,
+  onLeaveQueue,
+  onExitGame,
+  spectator = false,
+  onLeaveSpectate,
+  animationSpeed = 'normal',
+}) => {
   const debug = (...args: any[]) => {
     if (process.env.NODE_ENV === 'development') {
       console.log('[GameBoard]', ...args);
     }
   };
 
-  // 🧠 Initialize from localStorage if available
+  // 🧠 Initialize from localStorage if available, read once on mount
+  const [stored] = useState(() => (spectator ? null : loadGameState()));
   const getInitialState = (): GameState => {
-    const stored = loadGameState();
     if (stored && stored.player1 && stored.player2) {
       debug('Restoring saved game state:', stored);
-      return {
-        board: stored.board || Array(6).fill(null).map(() => Array(7).fill(0)),
-        currentTurn: stored.currentTurn || 1,
-        status: stored.status || 'waiting',
-        player1: stored.player1,
-        player2: stored.player2,
-        winner: stored.winner,
-        lastMove: stored.lastMove,
-      };
+      try {
+        return decodeGameState(stored);
+      } catch (error) {
+        debug('Discarding malformed saved game state:', error);
+      }
     }
     debug('Starting fresh game state.');
     return {
-      board: Array(6).fill(null).map(() => Array(7).fill(0)),
+      board: createEmptyBoard(),
       currentTurn: 1,
       status: 'waiting',
     };
@@ -56,14 +108,30 @@ const GameBoard: React.FC<GameBoardProps> = ({ websocket, username }) => {
 
   const [gameState, setGameState] = useState<GameState>(getInitialState);
   const [gameFinished, setGameFinished] = useState(false);
-  const [finishedData, setFinishedData] = useState<any>(null);
-  const [isLoadingRematch, setIsLoadingRematch] = useState(false);
+  const [finishedData, setFinishedData] = useState<GameResult | null>(null);
+  const [rematch, setRematch] = useState<RematchState>(IDLE_REMATCH);
+  const [now, setNow] = useState(Date.now);
+  // When the latest clock snapshot arrived
+  const [clockSyncedAt, setClockSyncedAt] = useState<number | null>(null);
+  const [moves, setMoves] = useState<Move[]>(() => stored?.moves ?? []);
+  const [showReplay, setShowReplay] = useState(false);
+  const [startedAt, setStartedAt] = useState<number | null>(() => stored?.startedAt ?? null);
+  const [spectatorCount, setSpectatorCount] = useState(0);
+  const archivedRef = useRef(false);
+  const [botDeadline, setBotDeadline] = useState<number | null>(null);
+  // Name of the bot that took the seat nobody claimed, shown briefly
+  const [botTakeover, setBotTakeover] = useState<string | null>(null);
+  // Whether the server said a bot would fill the seat if nobody joined
+  const botFallbackRef = useRef(false);
+  const statusRef = useRef(gameState.status);
+  useEffect(() => { statusRef.current = gameState.status; }, [gameState.status]);
 
   const usernameRef = useRef<string>(username);
   useEffect(() => { usernameRef.current = username; }, [username]);
 
   // 💾 Persist game state
   useEffect(() => {
+    if (spectator) return;
     if (gameState.status !== 'waiting' || (gameState.player1 && gameState.player2)) {
       const stateToSave: StoredGameState = {
         board: gameState.board,
@@ -73,147 +141,394 @@ const GameBoard: React.FC<GameBoardProps> = ({ websocket, username }) => {
         player2: gameState.player2,
         winner: gameState.winner,
         lastMove: gameState.lastMove,
+        moves,
+        startedAt: startedAt ?? undefined,
       };
       saveGameState(stateToSave);
     }
-  }, [gameState]);
+  }, [gameState, moves, startedAt, spectator]);
+
+  // ⏱️ Fallback start time when we join a game already under way
+  useEffect(() => {
+    if (gameState.status === 'in_progress' && startedAt === null) {
+      setStartedAt(Date.now());
+    }
+  }, [gameState.status, startedAt]);
 
   // 🌐 WebSocket event handling
   useEffect(() => {
-    if (!websocket) return;
-    debug('WebSocket effect mounted. ReadyState:', websocket.readyState);
+    debug('Subscribing to game channel.');
 
-    const messageHandler = (event: MessageEvent) => {
-      const data = JSON.parse(event.data);
-      debug('🔵 WS Received:', data.type, data.payload);
+    const unsubscribe = channel.subscribe((message) => {
+      debug('🔵 WS Received:', message.type, message.payload);
 
-      switch (data.type) {
-        case 'gameFinished':
-          debug('🏁 Game finished:', data.payload);
-          setFinishedData({
-            winner: data.payload?.winner || null,
-            isDraw: data.payload?.isDraw || false,
-            botWon: data.payload?.botWon || false,
+      switch (message.type) {
+        case 'queueStatus': {
+          const { botDeadline: deadline, serverTime } = message.payload;
+          setBotDeadline(deadline === null ? null : toLocalTime(deadline, serverTime));
+          botFallbackRef.current = deadline !== null;
+          break;
+        }
+
+        case 'rematchPending': {
+          const { expiresAt, serverTime } = message.payload;
+          if (expiresAt !== null) {
+            setRematch(prev => prev.status === 'requested'
+              ? { status: 'requested', deadline: toLocalTime(expiresAt, serverTime) }
+              : prev);
+          }
+          break;
+        }
+
+        case 'rematchRequested': {
+          const { from, expiresAt, serverTime } = message.payload;
+          setRematch({
+            status: 'incoming',
+            from,
+            deadline: expiresAt === null ? null : toLocalTime(expiresAt, serverTime),
+          });
+          break;
+        }
+
+        case 'rematchDeclined':
+          setRematch({
+            status: 'cancelled',
+            message: `${message.payload.by ?? 'Your opponent'} declined the rematch.`,
           });
+          break;
+
+        case 'rematchTimeout':
+          setRematch({
+            status: 'cancelled',
+            message: message.payload.message ?? "Your opponent didn't respond in time.",
+          });
+          break;
+
+        case 'opponentLeft':
+          setRematch({ status: 'opponentLeft' });
+          break;
+
+        case 'spectatorCount':
+          setSpectatorCount(message.payload.count);
+          break;
+
+        case 'gameFinished':
+          debug('🏁 Game finished:', message.payload);
+          setFinishedData(message.payload);
           setGameFinished(true);
           break;
 
         case 'gameStart':
-        case 'gameState': {
-          const payload = data.payload || {};
-          let board = payload.board;
-          if (!Array.isArray(board)) board = Array(6).fill(null).map(() => Array(7).fill(0));
-
-          const normalizePlayer = (p: any) => {
-            if (!p) return undefined;
-            return {
-              username: p.Username || p.username,
-              id: p.ID || p.id,
-              isBot: p.IsBot || p.isBot || false,
-            };
-          };
-
-          setGameState({
-            board,
-            currentTurn: payload.currentTurn ?? 1,
-            status: payload.Status || payload.status || 'waiting',
-            winner: payload.winner ? normalizePlayer(payload.winner) : undefined,
-            player1: normalizePlayer(payload.Player1 || payload.player1),
-            player2: normalizePlayer(payload.Player2 || payload.player2),
-            lastMove: payload.lastMove,
-          });
+        case 'gameState':
+          if (message.type === 'gameStart' && countDiscs(message.payload.board) === 0) {
+            setStartedAt(Date.now());
+            archivedRef.current = false;
+          }
+          if (message.type === 'gameStart' && statusRef.current === 'waiting' && botFallbackRef.current) {
+            const { player1, player2 } = message.payload;
+            const opponent = player1?.username === usernameRef.current ? player2 : player1;
+            if (opponent?.isBot) setBotTakeover(opponent.username);
+          }
+          if (message.type === 'gameStart') {
+            botFallbackRef.current = false;
+            setBotDeadline(null);
+          }
+          setGameState(message.payload);
+          setClockSyncedAt(message.payload.clock ? Date.now() : null);
+          setMoves(prev => recordMove(prev, message.payload));
 
-          debug('🟢 Updated game state:', payload);
+          debug('🟢 Updated game state:', message.payload);
           setGameFinished(false);
           setFinishedData(null);
-          setIsLoadingRematch(false);
+          setRematch(IDLE_REMATCH);
+          setShowReplay(false);
           break;
-        }
 
         default:
-          debug('⚪ Unknown message type:', data.type);
+          debug('⚪ Unhandled message type:', message.type);
       }
-    };
-
-    websocket.onmessage = messageHandler;
-    websocket.onopen = () => debug('✅ WebSocket connected.');
-    websocket.onclose = () => debug('❌ WebSocket closed.');
-    websocket.onerror = (err) => debug('⚠️ WebSocket error:', err);
+    });
 
     return () => {
-      websocket.onmessage = null;
-      websocket.onclose = null;
-      websocket.onerror = null;
+      unsubscribe();
       debug('🧹 WS listeners cleaned up.');
     };
-  }, [websocket]);
+  }, [channel]);
+
+  // 🤖 Let the bot takeover notice fade after a moment
+  useEffect(() => {
+    if (!botTakeover) return;
+    const timer = setTimeout(() => setBotTakeover(null), 3000);
+    return () => clearTimeout(timer);
+  }, [botTakeover]);
+
+  // ✖️ Leave matchmaking (or a private room) and go back to mode selection
+  const handleCancelWaiting = useCallback(() => {
+    debug('✖️ Sending leaveQueue...');
+    channel.send({ type: 'leaveQueue', payload: {} });
+    clearGameState();
+    onLeaveQueue?.();
+  }, [channel, onLeaveQueue]);
+
+  const opponent = gameState.player1?.username === username ? gameState.player2 : gameState.player1;
+  const opponentName = opponent?.username ?? 'Your opponent';
+
+  // 💬 Chat with human opponents online; bots and shared devices get none
+  const chatEnabled = !hotSeat && !spectator && !!opponent && !opponent.isBot;
+  const chat = useGameChat({ channel, username, enabled: chatEnabled });
+
+  // ⏳ Tick while a rematch offer is open or its game is starting, and lapse
+  // it at the deadline
+  const rematchDeadline = 'deadline' in rematch ? rematch.deadline : null;
+  useEffect(() => {
+    if (rematchDeadline === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [rematchDeadline]);
+
+  useEffect(() => {
+    if (rematchDeadline === null || now < rematchDeadline) return;
+    setRematch(prev => {
+      if (prev.status === 'requested') {
+        return { status: 'cancelled', message: `${opponentName} didn't respond in time.` };
+      }
+      if (prev.status === 'incoming') {
+        return { status: 'cancelled', message: 'The rematch request expired.' };
+      }
+      if (prev.status === 'accepted') {
+        return { status: 'cancelled', message: "The new game didn't start in time." };
+      }
+      return prev;
+    });
+  }, [now, rematchDeadline, opponentName]);
+
+  const secondsUntil = (deadline: number | null) =>
+    deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
 
   // 🔁 Play Again handler
   const handleGameFinishedPlayAgain = useCallback(() => {
-    if (!websocket || websocket.readyState !== WebSocket.OPEN) {
+    debug('🔁 Sending playAgain...');
+    if (!channel.send({ type: 'playAgain', payload: {} })) {
       debug('❌ WS not open for playAgain');
       return;
     }
-    debug('🔁 Sending playAgain...');
-    setIsLoadingRematch(true);
-    websocket.send(JSON.stringify({ type: 'playAgain', payload: {} }));
-  }, [websocket]);
+    setRematch({ status: 'requested', deadline: Date.now() + REMATCH_TIMEOUT_MS });
+  }, [channel]);
+
+  // 🤝 Answer the opponent's rematch request
+  const handleRematchResponse = useCallback((accept: boolean) => {
+    debug('🤝 Sending rematchResponse:', accept);
+    if (!channel.send({ type: 'rematchResponse', payload: { accept } })) {
+      debug('❌ WS not open for rematchResponse');
+      return;
+    }
+    setRematch(accept
+      ? { status: 'accepted', deadline: Date.now() + REMATCH_TIMEOUT_MS }
+      : { status: 'cancelled', message: 'You declined the rematch.' });
+  }, [channel]);
 
   // 🚪 Exit game handler
   const handleGameFinishedExit = useCallback(() => {
-    if (!websocket || websocket.readyState !== WebSocket.OPEN) {
+    debug('🚪 Sending exitGame...');
+    if (!channel.send({ type: 'exitGame', payload: {} })) {
       debug('❌ WS not open for exitGame');
-      return;
     }
-    debug('🚪 Sending exitGame...');
-    setIsLoadingRematch(true);
-    websocket.send(JSON.stringify({ type: 'exitGame', payload: {} }));
     clearGameState();
-    clearGameMode();
-    window.location.reload();
-  }, [websocket]);
+    onExitGame?.();
+  }, [channel, onExitGame]);
 
   // 🟡 Move click handler
+  const currentPlayer = gameState.currentTurn === 1 ? gameState.player1 : gameState.player2;
+  const actingUsername = hotSeat ? currentPlayer?.username ?? username : username;
+  // Name both players rather than "you" on shared devices and for spectators
+  const namePlayers = hotSeat || spectator;
+
   const handleColumnClick = useCallback((col: number) => {
-    if (!websocket || websocket.readyState !== WebSocket.OPEN) return;
+    if (!canPlayMove(gameState, actingUsername, col)) {
+      debug('⛔ Ignoring illegal move in column:', col);
+      return;
+    }
     debug('🟡 Move clicked, sending column:', col);
-    websocket.send(JSON.stringify({ type: 'move', payload: { column: col } }));
-  }, [websocket]);
+    channel.send({ type: 'move', payload: { column: col } });
+  }, [channel, gameState, actingUsername]);
+
+  // ⌨️ Keyboard play: arrow keys pick a column, Enter/Space or a number key drops
+  const isMyTurn = !spectator && gameState.status === 'in_progress' && currentPlayer?.username === actingUsername;
+  const { cursorColumn, setCursorColumn, handleBoardKeyDown, getAriaLabel } = useGameAccessibility({
+    columns: getColumnCount(gameState.board),
+    isMyTurn,
+    onMove: handleColumnClick,
+    player1: gameState.player1?.username,
+    player2: gameState.player2?.username,
+  });
+
+  const handleCellClick = useCallback((col: number) => {
+    setCursorColumn(col);
+    handleColumnClick(col);
+  }, [setCursorColumn, handleColumnClick]);
+
+  // 👀 Marks the other side's latest disc; on shared screens, that of whoever moved last
+  const viewerNumber = namePlayers ? gameState.currentTurn : getPlayerNumber(gameState, username);
+  const opponentMove = useMemo(
+    () => (viewerNumber ? findOpponentMove(moves, viewerNumber) : undefined),
+    [moves, viewerNumber]
+  );
+
+  // 📢 Screen reader announcements of each move, the turn and the result
+  const [announcement, setAnnouncement] = useState('');
+  const announcedStateRef = useRef<GameState | null>(null);
+  useEffect(() => {
+    const text = announceGameState(announcedStateRef.current, gameState, { viewer: username, namePlayers });
+    announcedStateRef.current = gameState;
+    if (text) setAnnouncement(text);
+  }, [gameState, username, namePlayers]);
+
+  // 🏆 Cells of the winning four, highlighted once the game is won
+  const winningCells = useMemo(() => {
+    if (gameState.status !== 'completed') return undefined;
+    return findWinningLine(gameState.board)?.cells;
+  }, [gameState.status, gameState.board]);
+
+  // Moves are only seen from the moment we joined, so a game joined mid-way
+  // (or restored from an older save) has fewer moves than discs
+  const replayRecord = useMemo((): GameRecord => ({
+    player1: gameState.player1,
+    player2: gameState.player2,
+    moves,
+    rows: gameState.board.length,
+    columns: gameState.board[0]?.length ?? 0,
+    result: finishedData ?? undefined,
+    ...(moves.length !== countDiscs(gameState.board) ? { incomplete: true } : {}),
+  }), [gameState.player1, gameState.player2, gameState.board, moves, finishedData]);
+  const canReplay = moves.length > 0 && !replayRecord.incomplete;
+
+  // 🗄️ Archive each finished game once
+  useEffect(() => {
+    if (spectator) return;
+    if (!gameFinished || !finishedData || archivedRef.current || moves.length === 0) return;
+    archivedRef.current = true;
+    const entry = createMatchEntry(username, replayRecord, startedAt ?? Date.now());
+    if (entry) {
+      addMatch(entry).catch(error => debug('⚠️ Failed to archive game:', error));
+    }
+  }, [gameFinished, finishedData, replayRecord, username, startedAt, moves.length, spectator]);
+
+  // 👁️ Stop watching; the game itself carries on
+  const handleLeaveSpectate = useCallback(() => {
+    debug('👁️ Sending leaveSpectate...');
+    channel.send({ type: 'leaveSpectate', payload: {} });
+    onLeaveSpectate?.();
+  }, [channel, onLeaveSpectate]);
 
   return (
     <div className="game-board">
-      {gameFinished && finishedData && (
+      {spectator && (
+        <div className="spectator-bar">
+          <span>
+            👁️ Watching <strong>{gameState.player1?.username ?? '…'}</strong> vs{' '}
+            <strong>{gameState.player2?.username ?? '…'}</strong>
+          </span>
+          <button className="btn btn-secondary btn-sm" onClick={handleLeaveSpectate}>
+            Leave
+          </button>
+        </div>
+      )}
+
+      {gameState.status === 'waiting' && !spectator && (
+        <WaitingOverlay inviteCode={inviteCode} botDeadline={botDeadline} onCancel={handleCancelWaiting} />
+      )}
+
+      {botTakeover && (
+        <div className="bot-takeover" role="status">
+          🤖 No one joined in time, so <strong>{botTakeover}</strong> is taking the other seat.
+        </div>
+      )}
+
+      {showReplay && (
+        <Replay record={replayRecord} onClose={() => setShowReplay(false)} />
+      )}
+
+      {gameFinished && finishedData && !showReplay && !spectator && (
         <GameFinished
           winner={finishedData.winner}
           isDraw={finishedData.isDraw}
           botWon={finishedData.botWon}
+          reason={finishedData.reason}
           onPlayAgain={handleGameFinishedPlayAgain}
           onExit={handleGameFinishedExit}
-          isLoading={isLoadingRematch}
+          isLoading={rematch.status === 'accepted'}
+          timedOut={rematch.status === 'cancelled'}
+          timeoutMessage={rematch.status === 'cancelled' ? rematch.message : ''}
+          opponentExited={rematch.status === 'opponentLeft'}
+          rematchCountdown={rematch.status === 'requested' ? secondsUntil(rematch.deadline) : null}
+          incomingRematch={rematch.status === 'incoming'
+            ? { from: rematch.from, secondsLeft: secondsUntil(rematch.deadline) }
+            : undefined}
+          onAcceptRematch={() => handleRematchResponse(true)}
+          onDeclineRematch={() => handleRematchResponse(false)}
+          onViewReplay={canReplay ? () => setShowReplay(true) : undefined}
+          record={canReplay ? replayRecord : undefined}
         />
       )}
 
       <div className="status">
-        {gameState.status === 'waiting' && 'Waiting for opponent...'}
-        {gameState.status === 'in_progress' && 'Game in progress...'}
-        {gameState.status === 'completed' &&
+        {gameState.status === 'waiting' && (spectator ? 'Waiting for the game to start...' : 'Waiting for opponent...')}
+        {gameState.status === 'in_progress' && !namePlayers && 'Game in progress...'}
+        {gameState.status === 'in_progress' && namePlayers && (
+          <span className="turn-indicator">
+            <span className={`turn-disc player${gameState.currentTurn}`} />
+            {currentPlayer?.username}'s turn
+          </span>
+        )}
+        {gameState.status === 'completed' && namePlayers && `${gameState.winner?.username} wins!`}
+        {gameState.status === 'completed' && !namePlayers &&
           (gameState.winner?.username === username ? 'You won!' : 'You lost!')}
         {gameState.status === 'draw' && 'Game ended in a draw!'}
+        {spectatorCount > 0 && (
+          <span className="spectator-count">👁️ {spectatorCount} watching</span>
+        )}
       </div>
 
-      <div className="board">
-        {gameState.board.map((row, rIdx) => (
-          <div key={rIdx} className="row">
-            {row.map((cell, cIdx) => (
-              <div
-                key={`${rIdx}-${cIdx}`}
-                className={`cell ${cell === 1 ? 'player1' : cell === 2 ? 'player2' : ''}`}
-                onClick={() => handleColumnClick(cIdx)}
-              />
-            ))}
-          </div>
-        ))}
+      {gameState.clock && clockSyncedAt !== null && (
+        <PlayerClocks
+          clock={gameState.clock}
+          syncedAt={clockSyncedAt}
+          currentTurn={gameState.currentTurn}
+          running={gameState.status === 'in_progress'}
+          player1={gameState.player1}
+          player2={gameState.player2}
+        />
+      )}
+
+      <div className="board-area">
+        <Board
+          board={gameState.board}
+          winningCells={winningCells}
+          onColumnClick={spectator ? undefined : handleCellClick}
+          label={spectator
+            ? 'Connect 4 board'
+            : 'Connect 4 board. Left and right arrows choose a column; Enter or Space drops a disc.'}
+          cursorColumn={spectator ? undefined : cursorColumn}
+          onKeyDown={spectator ? undefined : handleBoardKeyDown}
+          getCellLabel={getAriaLabel}
+          previewPlayer={isMyTurn ? gameState.currentTurn : undefined}
+          droppedCell={gameState.lastMove}
+          animationSpeed={animationSpeed}
+          markedCell={opponentMove}
+        />
+        <div className="board-announcer" role="status" aria-live="polite">
+          {announcement}
+        </div>
+        <EmoteLayer emotes={chat.emotes} />
       </div>
+
+      {!hotSeat && !spectator && opponent && (
+        <ChatPanel
+          chat={chat}
+          disabledReason={opponent.isBot ? 'Chat is off when playing against a bot.' : undefined}
+        />
+      )}
     </div>
   );
 };
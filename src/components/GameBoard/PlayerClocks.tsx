@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { GameClock, Player } from '../../types';
+import { describeTimeControl, formatClock, getRemainingMs, isLowTime } from '../../utils/timeControl';
+
+interface PlayerClocksProps {
+  clock: GameClock;
+  // Local time the clock snapshot arrived; the running clock counts down from here
+  syncedAt: number;
+  currentTurn: number;
+  running: boolean;
+  player1?: Player;
+  player2?: Player;
+}
+
+const PlayerClocks: React.FC<PlayerClocksProps> = ({ clock, syncedAt, currentTurn, running, player1, player2 }) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const elapsed = Math.max(0, now - syncedAt);
+
+  return (
+    <div className="player-clocks" aria-label={`Time control: ${describeTimeControl(clock.timeControl)}`}>
+      {[player1, player2].map((player, index) => {
+        const seat = index + 1;
+        const remaining = getRemainingMs(clock, seat, currentTurn, running, elapsed);
+        const active = running && seat === currentTurn;
+        const low = active && isLowTime(remaining, clock.timeControl);
+        return (
+          <div
+            key={seat}
+            className={`player-clock player${seat}${active ? ' active' : ''}${low ? ' low-time' : ''}`}
+          >
+            <span className={`turn-disc player${seat}`} />
+            <span className="player-clock-name">{player?.username ?? `Player ${seat}`}</span>
+            <span className="player-clock-time" role={low ? 'timer' : undefined}>
+              {formatClock(remaining)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PlayerClocks;
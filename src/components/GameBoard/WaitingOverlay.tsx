@@ -1,31 +1,83 @@
 import React, { useState, useEffect } from 'react';
+import { buildRoomInviteUrl } from '../../utils/rooms';
 import './WaitingOverlay.css';
 
 interface WaitingOverlayProps {
   onCancel: () => void;
+  // Set for private rooms: the code to share, or null while the server creates it
+  inviteCode?: string | null;
+  // Local time (ms) at which the server seats a bot, if it will
+  botDeadline?: number | null;
 }
 
-const WaitingOverlay: React.FC<WaitingOverlayProps> = ({ onCancel }) => {
-  const [timeRemaining, setTimeRemaining] = useState(10);
+const secondsUntil = (deadline: number) => Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
 
+const WaitingOverlay: React.FC<WaitingOverlayProps> = ({ onCancel, inviteCode, botDeadline = null }) => {
+  const [timeRemaining, setTimeRemaining] = useState<number | null>(
+    botDeadline === null ? null : secondsUntil(botDeadline)
+  );
+  const [copyFeedback, setCopyFeedback] = useState('');
+  const isPrivateRoom = inviteCode !== undefined;
+
+  // Count down to the server's deadline rather than a local guess
   useEffect(() => {
-    // Start countdown from 10 seconds
-    setTimeRemaining(10);
-    
-    const interval = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 1) {
-          clearInterval(interval);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => {
-      clearInterval(interval);
-    };
-  }, []);
+    if (botDeadline === null) {
+      setTimeRemaining(null);
+      return;
+    }
+    const tick = () => setTimeRemaining(secondsUntil(botDeadline));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [botDeadline]);
+
+  const copy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopyFeedback(`${label} copied`);
+    } catch (error) {
+      setCopyFeedback('Copy failed — select the link instead');
+    }
+  };
+
+  if (isPrivateRoom) {
+    const inviteUrl = inviteCode ? buildRoomInviteUrl(inviteCode) : '';
+    return (
+      <div className="waiting-overlay">
+        <div className="waiting-content">
+          <h2>Waiting for Your Friend</h2>
+          <div className="waiting-spinner"></div>
+          {inviteCode ? (
+            <>
+              <p className="waiting-message">Share this code or link to start the game:</p>
+              <div className="room-code" aria-label="Room code">{inviteCode}</div>
+              <input
+                className="room-invite-url"
+                value={inviteUrl}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                aria-label="Invite link"
+              />
+              <div className="room-invite-actions">
+                <button className="btn btn-primary btn-sm" onClick={() => copy(inviteUrl, 'Invite link')}>
+                  Copy link
+                </button>
+                <button className="btn btn-secondary btn-sm" onClick={() => copy(inviteCode, 'Room code')}>
+                  Copy code
+                </button>
+              </div>
+              {copyFeedback && <p className="room-invite-feedback" role="status">{copyFeedback}</p>}
+            </>
+          ) : (
+            <p className="waiting-message">Creating your room...</p>
+          )}
+          <button className="cancel-button" onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="waiting-overlay">
@@ -35,14 +87,16 @@ const WaitingOverlay: React.FC<WaitingOverlayProps> = ({ onCancel }) => {
         <p className="waiting-message">
           Please wait while we find another player...
         </p>
-        <p className="countdown-message">
-          {timeRemaining > 0 
-            ? `If no opponent joins in ${timeRemaining} second${timeRemaining !== 1 ? 's' : ''}, you'll play with a bot.`
-            : 'Switching to bot mode...'
-          }
-        </p>
+        {timeRemaining !== null && (
+          <p className="countdown-message" aria-live="polite">
+            {timeRemaining > 0
+              ? `If no opponent joins in ${timeRemaining} second${timeRemaining !== 1 ? 's' : ''}, you'll play with a bot.`
+              : 'Switching to bot mode...'
+            }
+          </p>
+        )}
         <p>
-          Share this game with your friends to play together!
+          Want to play someone specific? Create a private room from the menu instead.
         </p>
         <button className="cancel-button" onClick={onCancel}>
           Cancel
@@ -52,4 +106,4 @@ const WaitingOverlay: React.FC<WaitingOverlayProps> = ({ onCancel }) => {
   );
 };
 
-export default WaitingOverlay;
\ No newline at end of file
+export default WaitingOverlay;
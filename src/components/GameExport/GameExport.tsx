@@ -0,0 +1,54 @@
+import React, { useMemo, useState } from 'react';
+import { buildReplayUrl, exportGameJson, serializeGame } from '../../utils/notation';
+import { GameRecord } from '../../types';
+import './GameExport.css';
+
+interface GameExportProps {
+  record: GameRecord;
+}
+
+const GameExport: React.FC<GameExportProps> = ({ record }) => {
+  const [feedback, setFeedback] = useState('');
+  const notation = useMemo(() => serializeGame(record), [record]);
+
+  const copy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setFeedback(`${label} copied`);
+    } catch (error) {
+      setFeedback('Copy failed — select the notation below instead');
+    }
+  };
+
+  const downloadJson = () => {
+    const blob = new Blob([exportGameJson(record)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const names = [record.player1?.username, record.player2?.username].filter(Boolean).join('-vs-');
+    link.href = url;
+    link.download = `connect4-${names || 'game'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setFeedback('Download started');
+  };
+
+  return (
+    <div className="game-export">
+      <input
+        className="game-export-notation"
+        value={notation}
+        readOnly
+        onFocus={(e) => e.target.select()}
+        aria-label="Game notation"
+      />
+      <div className="game-export-actions">
+        <button className="btn btn-secondary btn-sm" onClick={() => copy(notation, 'Notation')}>Copy notation</button>
+        <button className="btn btn-secondary btn-sm" onClick={downloadJson}>Download JSON</button>
+        <button className="btn btn-secondary btn-sm" onClick={() => copy(buildReplayUrl(record), 'Replay link')}>Copy link</button>
+      </div>
+      {feedback && <p className="game-export-feedback" role="status">{feedback}</p>}
+    </div>
+  );
+};
+
+export default GameExport;
@@ -1,28 +1,47 @@
 import React from 'react';
+import GameExport from '../GameExport/GameExport';
+import { GameEndReason, GameRecord } from '../../types';
 import './GameFinished.css';
 
 interface GameFinishedProps {
   winner?: string | null;
   isDraw: boolean;
   botWon?: boolean;
+  reason?: GameEndReason;
   onPlayAgain: () => void;
   onExit: () => void;
   isLoading?: boolean;
   timedOut?: boolean;
   timeoutMessage?: string;
   opponentExited?: boolean;
+  // Seconds left for the opponent to answer our rematch request
+  rematchCountdown?: number | null;
+  // Rematch offered by the opponent, awaiting our answer
+  incomingRematch?: { from: string; secondsLeft: number | null };
+  onAcceptRematch?: () => void;
+  onDeclineRematch?: () => void;
+  onViewReplay?: () => void;
+  // Finished game, offered for export when provided
+  record?: GameRecord;
 }
 
 const GameFinished: React.FC<GameFinishedProps> = ({
   winner,
   isDraw,
   botWon,
+  reason,
   onPlayAgain,
   onExit,
   isLoading = false,
   timedOut = false,
   timeoutMessage = '',
   opponentExited = false,
+  rematchCountdown = null,
+  incomingRematch,
+  onAcceptRematch,
+  onDeclineRematch,
+  onViewReplay,
+  record,
 }) => {
   return (
     <div className="game-finished-overlay">
@@ -43,6 +62,12 @@ const GameFinished: React.FC<GameFinishedProps> = ({
                 <p className="result-text">Opponent Left</p>
                 <p className="result-subtitle">Your opponent has exited the game</p>
               </>
+            ) : reason === 'timeout' && winner ? (
+              <>
+                <div className="result-icon timeout-icon">⏱️</div>
+                <p className="result-text"><strong>{winner}</strong> Wins on Time!</p>
+                <p className="result-subtitle">Their opponent's clock ran out</p>
+              </>
             ) : isDraw ? (
               <>
                 <div className="result-icon draw-icon">🤝</div>
@@ -66,22 +91,51 @@ const GameFinished: React.FC<GameFinishedProps> = ({
             )}
           </div>
 
-          <div className="game-finished-actions">
-            <button
-              className="btn-play-again"
-              onClick={onPlayAgain}
-              disabled={isLoading || timedOut || opponentExited}
-            >
-              {isLoading ? 'Loading...' : '🔄 Play Again'}
-            </button>
-            <button
-              className="btn-exit"
-              onClick={onExit}
-              disabled={isLoading}
-            >
-              {isLoading ? 'Loading...' : '❌ Exit'}
+          {incomingRematch && !timedOut && !opponentExited ? (
+            <div className="rematch-request" role="alert">
+              <p className="rematch-request-text">
+                🔄 <strong>{incomingRematch.from}</strong> wants a rematch
+                {incomingRematch.secondsLeft !== null && ` (${incomingRematch.secondsLeft}s)`}
+              </p>
+              <div className="game-finished-actions">
+                <button className="btn-play-again" onClick={onAcceptRematch} disabled={isLoading}>
+                  {isLoading ? 'Loading...' : '✅ Accept'}
+                </button>
+                <button className="btn-exit" onClick={onDeclineRematch} disabled={isLoading}>
+                  ✋ Decline
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="game-finished-actions">
+              <button
+                className="btn-play-again"
+                onClick={onPlayAgain}
+                disabled={isLoading || rematchCountdown !== null || timedOut || opponentExited}
+              >
+                {isLoading
+                  ? 'Loading...'
+                  : rematchCountdown !== null
+                    ? `⏳ Waiting for opponent… ${rematchCountdown}s`
+                    : '🔄 Play Again'}
+              </button>
+              <button
+                className="btn-exit"
+                onClick={onExit}
+                disabled={isLoading}
+              >
+                {isLoading ? 'Loading...' : '❌ Exit'}
+              </button>
+            </div>
+          )}
+
+          {onViewReplay && (
+            <button className="btn-replay" onClick={onViewReplay}>
+              ▶ Watch Replay
             </button>
-          </div>
+          )}
+
+          {record && <GameExport record={record} />}
         </div>
       </div>
     </div>
@@ -1,16 +1,112 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { AiDifficulty, AnimationSpeed, GameMode, TimeControl } from '../../types';
+import { AI_DIFFICULTIES, AI_DIFFICULTY_LABELS } from '../../utils/aiEngine';
+import { ANIMATION_SPEEDS, ANIMATION_SPEED_LABELS } from '../../utils/animation';
+import { normalizeRoomCode } from '../../utils/rooms';
+import { TIME_CONTROL_PRESETS, findTimeControlPreset } from '../../utils/timeControl';
 import './GameModeSelection.css';
 
 interface GameModeSelectionProps {
-  onSelectMode: (mode: 'friend' | 'computer') => void;
+  onSelectMode: (mode: GameMode) => void;
+  aiDifficulty: AiDifficulty;
+  onAiDifficultyChange: (difficulty: AiDifficulty) => void;
+  onImportGame: () => void;
+  // Clock for online games; offline games are untimed
+  timeControl: TimeControl | null;
+  onTimeControlChange: (timeControl: TimeControl | null) => void;
+  // Board animations; the system's reduced-motion setting overrides them
+  animationSpeed: AnimationSpeed;
+  onAnimationSpeedChange: (speed: AnimationSpeed) => void;
+  reducedMotion: boolean;
+  onCreateRoom: () => void;
+  onJoinRoom: (code: string) => void;
+  // Why the last private room could not be joined
+  roomError?: string;
+  onOpenLeaderboard: () => void;
+  username: string;
+  guest: boolean;
+  onLogout: () => void;
+  // Lobby extras shown under the modes, such as live games to watch
+  children?: React.ReactNode;
 }
 
-const GameModeSelection: React.FC<GameModeSelectionProps> = ({ onSelectMode }) => {
+const GameModeSelection: React.FC<GameModeSelectionProps> = ({
+  onSelectMode,
+  aiDifficulty,
+  onAiDifficultyChange,
+  onImportGame,
+  timeControl,
+  onTimeControlChange,
+  animationSpeed,
+  onAnimationSpeedChange,
+  reducedMotion,
+  onCreateRoom,
+  onJoinRoom,
+  roomError,
+  onOpenLeaderboard,
+  username,
+  guest,
+  onLogout,
+  children,
+}) => {
+  const [roomInput, setRoomInput] = useState('');
+  const [inputError, setInputError] = useState('');
+
+  const handleJoinRoom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeRoomCode(roomInput);
+    if (!code) {
+      setInputError('Room codes are 4–8 letters or digits');
+      return;
+    }
+    setInputError('');
+    onJoinRoom(code);
+  };
+
   return (
     <div className="game-mode-selection">
       <div className="mode-selection-container">
+        <div className="account-bar">
+          <span>
+            👤 {username}
+            {guest && <span className="guest-badge">Guest</span>}
+          </span>
+          <button type="button" className="account-logout" onClick={onLogout}>
+            Log out
+          </button>
+        </div>
         <h1>Connect 4</h1>
         <h2>Choose your opponent</h2>
+        <label className="time-control-picker">
+          ⏱️ Online time control
+          <select
+            value={findTimeControlPreset(timeControl)?.id ?? 'none'}
+            onChange={(e) => {
+              const preset = TIME_CONTROL_PRESETS.find(p => p.id === e.target.value);
+              onTimeControlChange(preset?.timeControl ?? null);
+            }}
+          >
+            {TIME_CONTROL_PRESETS.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="time-control-picker">
+          🎞️ Animations
+          <select
+            value={reducedMotion ? 'off' : animationSpeed}
+            disabled={reducedMotion}
+            onChange={(e) => onAnimationSpeedChange(e.target.value as AnimationSpeed)}
+            aria-describedby={reducedMotion ? 'reduced-motion-note' : undefined}
+          >
+            {ANIMATION_SPEEDS.map(speed => (
+              <option key={speed} value={speed}>{ANIMATION_SPEED_LABELS[speed]}</option>
+            ))}
+          </select>
+          {reducedMotion && (
+            <span id="reduced-motion-note" className="picker-note">Off while your system reduces motion</span>
+          )}
+        </label>
         <div className="mode-options">
           <button 
             className="mode-button computer-mode"
@@ -32,7 +128,77 @@ const GameModeSelection: React.FC<GameModeSelectionProps> = ({ onSelectMode }) =
             <div className="mode-title">Play with Friend</div>
             <div className="mode-description">Wait for another player to join</div>
           </button>
+          <button 
+            className="mode-button local-mode"
+            onClick={() => {
+              onSelectMode('local');
+            }}
+          >
+            <div className="mode-icon">🪑</div>
+            <div className="mode-title">Pass and Play</div>
+            <div className="mode-description">Two players take turns on this device, no connection needed</div>
+          </button>
+          <div className="mode-button ai-mode">
+            <div className="mode-icon">🧠</div>
+            <div className="mode-title">Offline AI</div>
+            <div className="mode-description">Play the built-in engine, no connection needed</div>
+            <div className="difficulty-options" role="radiogroup" aria-label="AI difficulty">
+              {AI_DIFFICULTIES.map((level) => (
+                <button
+                  key={level}
+                  type="button"
+                  role="radio"
+                  aria-checked={aiDifficulty === level}
+                  className={`difficulty-option${aiDifficulty === level ? ' selected' : ''}`}
+                  onClick={() => onAiDifficultyChange(level)}
+                >
+                  {AI_DIFFICULTY_LABELS[level]}
+                </button>
+              ))}
+            </div>
+            <button
+              type="button"
+              className="btn btn-primary btn-sm"
+              onClick={() => {
+                onSelectMode('ai');
+              }}
+            >
+              Start
+            </button>
+          </div>
+          <div className="mode-button room-mode">
+            <div className="mode-icon">🔑</div>
+            <div className="mode-title">Private Room</div>
+            <div className="mode-description">Invite a friend with a code or link</div>
+            <button type="button" className="btn btn-primary btn-sm" onClick={onCreateRoom}>
+              Create room
+            </button>
+            <form className="room-join-form" onSubmit={handleJoinRoom}>
+              <input
+                type="text"
+                value={roomInput}
+                onChange={(e) => setRoomInput(e.target.value)}
+                placeholder="Room code"
+                aria-label="Room code"
+                autoCapitalize="characters"
+                spellCheck={false}
+              />
+              <button type="submit" className="btn btn-secondary btn-sm" disabled={!roomInput.trim()}>
+                Join
+              </button>
+            </form>
+            {(inputError || roomError) && (
+              <div className="room-error" role="alert">{inputError || roomError}</div>
+            )}
+          </div>
         </div>
+        <button type="button" className="mode-link" onClick={onImportGame}>
+          📂 Open a saved game or replay
+        </button>
+        <button type="button" className="mode-link" onClick={onOpenLeaderboard}>
+          🏅 Leaderboard
+        </button>
+        {children && <div className="lobby-panel">{children}</div>}
       </div>
     </div>
   );
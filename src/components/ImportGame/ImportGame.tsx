@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { NotationError, importGame } from '../../utils/notation';
+import { GameRecord } from '../../types';
+import './ImportGame.css';
+
+interface ImportGameProps {
+  onImport: (record: GameRecord) => void;
+  onClose: () => void;
+  initialError?: string;
+}
+
+const ImportGame: React.FC<ImportGameProps> = ({ onImport, onClose, initialError = '' }) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState(initialError);
+
+  const tryImport = (source: string) => {
+    try {
+      onImport(importGame(source));
+    } catch (err) {
+      setError(err instanceof NotationError ? err.message : 'Could not read this game');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      tryImport(await file.text());
+    } catch (err) {
+      setError('Could not read the selected file');
+    }
+  };
+
+  return (
+    <div className="import-game-overlay">
+      <div className="import-game-modal" role="dialog" aria-label="Import game">
+        <h2>Open a Saved Game</h2>
+        <p className="import-game-hint">Paste notation or a replay link, or choose an exported JSON file.</p>
+        <textarea
+          className="import-game-text"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setError('');
+          }}
+          placeholder="C4;v=1;size=7x6;..."
+          rows={3}
+          autoFocus
+        />
+        <input
+          className="import-game-file"
+          type="file"
+          accept=".json,.txt,application/json,text/plain"
+          onChange={handleFile}
+          aria-label="Game file"
+        />
+        {error && (
+          <div className="error" role="alert">
+            <span>⚠️</span>
+            {error}
+          </div>
+        )}
+        <div className="import-game-actions">
+          <button className="btn btn-primary" onClick={() => tryImport(text)} disabled={!text.trim()}>
+            Open Replay
+          </button>
+          <button className="btn btn-secondary" onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportGame;
@@ -1,131 +1,209 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useApi } from '../../hooks/useApi';
+import { useLiveUpdates } from '../../hooks/useLiveUpdates';
+import { leaderboardResource } from '../../utils/api';
+import { debounce } from '../../utils/debounce';
+import { GameChannel } from '../../utils/protocol';
+import {
+  LEADERBOARD_PAGE_SIZE,
+  LEADERBOARD_WINDOWS,
+  LeaderboardQuery,
+  LeaderboardSortKey,
+  LeaderboardWindow,
+  RankedPlayer,
+  applyOptimisticWin,
+  pageCount,
+  supportsTimeWindows,
+  toLeaderboardPage,
+} from '../../utils/leaderboard';
 import './Leaderboard.css';
 
-interface PlayerStats {
-  username: string;
-  gamesPlayed: number;
-  gamesWon: number;
-  winPercentage: number;
+const SORT_COLUMNS: { key: LeaderboardSortKey; label: string }[] = [
+  { key: 'gamesWon', label: 'Games Won' },
+  { key: 'gamesPlayed', label: 'Games Played' },
+  { key: 'winPercentage', label: 'Win Rate' },
+];
+
+interface LeaderboardProps {
+  // Game socket for result pushes, and whether it is open
+  channel?: GameChannel;
+  connected?: boolean;
+  // Highlights this player's row and pins it when it is on another page
+  username?: string | null;
+  // Player names open their profile when provided
+  onSelectPlayer?: (username: string) => void;
 }
 
-const Leaderboard: React.FC = () => {
-  const [leaderboard, setLeaderboard] = useState<PlayerStats[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+const Leaderboard: React.FC<LeaderboardProps> = ({ channel, connected, username = null, onSelectPlayer }) => {
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all');
+  const [sort, setSort] = useState<LeaderboardSortKey>('gamesWon');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
 
-  useEffect(() => {
-    const fetchLeaderboard = async () => {
-      try {
-        setError(null);
-        const apiBase = process.env.REACT_APP_API_URL || 'http://localhost:8080';
-        const response = await fetch(`${apiBase.replace(/\/$/, '')}/leaderboard`);
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        const data = await response.json();
-        setLeaderboard(data);
-      } catch (error) {
-        setError(error instanceof Error ? error.message : 'Failed to load leaderboard');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchLeaderboard();
-    const interval = setInterval(fetchLeaderboard, 5000); // Refresh every 5 seconds for more responsive updates
-
-    // Listen for explicit leaderboard update events (dispatched by GameBoard on game end)
-    const onUpdate = (e: Event) => {
-      try {
-        const custom = e as CustomEvent<any>;
-        // Optimistically update leaderboard when we have a winner (useful when backend DB is disabled)
-        try {
-          const detail = (custom && custom.detail) || {};
-          const winner = detail.winner as string | undefined;
-          const isDraw = !!detail.isDraw;
-          if (winner && !isDraw) {
-            setLeaderboard(prev => {
-              // clone
-              const next = prev.slice();
-              const idx = next.findIndex(p => p.username === winner);
-              if (idx >= 0) {
-                // update existing
-                const updated = { ...next[idx] };
-                updated.gamesPlayed = (updated.gamesPlayed || 0) + 1;
-                updated.gamesWon = (updated.gamesWon || 0) + 1;
-                updated.winPercentage = updated.gamesPlayed > 0 ? (updated.gamesWon / updated.gamesPlayed) * 100 : 0;
-                next[idx] = updated;
-              } else {
-                // add new
-                const newEntry = {
-                  username: winner,
-                  gamesPlayed: 1,
-                  gamesWon: 1,
-                  winPercentage: 100
-                } as PlayerStats;
-                next.push(newEntry);
-              }
-              // sort by gamesWon desc then winPercentage
-              next.sort((a, b) => (b.gamesWon - a.gamesWon) || (b.winPercentage - a.winPercentage));
-              return next;
-            });
-          }
-        } catch (err) {
-          // ignore
-        }
-      } catch (err) {
-        // ignore
+  const query: LeaderboardQuery = useMemo(
+    () => ({ window: timeWindow, sort, search, page, pageSize: LEADERBOARD_PAGE_SIZE, username }),
+    [timeWindow, sort, search, page, username]
+  );
+
+  const applySearch = useMemo(() => debounce((value: string) => {
+    setSearch(value);
+    setPage(1);
+  }, 300), []);
+
+  // A search typed just before leaving must not update an unmounted board
+  useEffect(() => () => applySearch.cancel(), [applySearch]);
+
+  const resource = useMemo(() => leaderboardResource(query), [query]);
+  const { data, error, loading, reload, mutate } = useApi(resource, { staleTimeMs: 2000 });
+
+  // Results are pushed as games end when the server supports it; otherwise poll
+  useLiveUpdates({
+    topic: 'leaderboard',
+    channel,
+    connected,
+    load: reload,
+    onPush: (message) => {
+      if (message.type !== 'leaderboardUpdate') return;
+      // Count the win straight away (useful when backend DB is disabled), then reload the page for ranks
+      const { winner, isDraw } = message.payload;
+      if (winner && !isDraw) {
+        mutate(current => current && applyOptimisticWin(current, winner));
       }
-      setLoading(true);
-      fetchLeaderboard();
-    };
-    window.addEventListener('leaderboard:update', onUpdate as EventListener);
-
-    return () => {
-      clearInterval(interval);
-  window.removeEventListener('leaderboard:update', onUpdate as EventListener);
-    };
-  }, []);
-
-  if (error) {
-    return <div className="leaderboard-error">Error: {error}</div>;
+      reload().catch(() => {});
+    },
+    pollIntervalMs: 5000,
+  });
+
+  const current = data ? toLeaderboardPage(data, query) : null;
+  // Older backends send the all-time table whatever window was asked for
+  const windowsSupported = !data || supportsTimeWindows(data);
+  const shownWindow = windowsSupported ? timeWindow : 'all';
+  const pages = current ? pageCount(current.total, LEADERBOARD_PAGE_SIZE) : 1;
+
+  // Stay on a real page when the list shrinks
+  useEffect(() => {
+    if (page > pages) setPage(pages);
+  }, [page, pages]);
+
+  if (error && !current) {
+    return <div className="leaderboard-error">Error: {error.message}</div>;
   }
 
-  if (loading) {
+  if (loading && !current) {
     return <div className="leaderboard-loading">Loading leaderboard...</div>;
   }
 
-  if (leaderboard.length === 0) {
-    return <div className="leaderboard-empty">No games played yet</div>;
-  }
+  const entries = current?.entries ?? [];
+  const you = current?.player ?? null;
+  const youOnPage = you !== null && entries.some(player => player.username === you.username);
+
+  const changeSort = (key: LeaderboardSortKey) => {
+    setSort(key);
+    setPage(1);
+  };
+
+  const changeWindow = (id: LeaderboardWindow) => {
+    setTimeWindow(id);
+    setPage(1);
+  };
+
+  const renderRow = (player: RankedPlayer, pinned = false) => (
+    <tr
+      key={pinned ? `you-${player.username}` : player.username}
+      className={[player.username === username && 'you', pinned && 'pinned'].filter(Boolean).join(' ') || undefined}
+    >
+      <td>{player.rank || '—'}</td>
+      <td>
+        {onSelectPlayer ? (
+          <button type="button" className="player-link" onClick={() => onSelectPlayer(player.username)}>
+            {player.username}
+          </button>
+        ) : player.username}
+        {player.username === username && <span className="you-badge">You</span>}
+      </td>
+      <td>{player.gamesWon}</td>
+      <td>{player.gamesPlayed}</td>
+      <td>{player.winPercentage.toFixed(1)}%</td>
+    </tr>
+  );
 
   return (
     <div className="leaderboard">
       <h2>Leaderboard</h2>
-      <table>
-        <thead>
-          <tr>
-            <th>Rank</th>
-            <th>Player</th>
-            <th>Games Won</th>
-            <th>Games Played</th>
-            <th>Win Rate</th>
-          </tr>
-        </thead>
-        <tbody>
-          {leaderboard.map((player, index) => (
-            <tr key={player.username}>
-              <td>{index + 1}</td>
-              <td>{player.username}</td>
-              <td>{player.gamesWon}</td>
-              <td>{player.gamesPlayed}</td>
-              <td>{player.winPercentage.toFixed(1)}%</td>
-            </tr>
+      <div className="leaderboard-controls">
+        <div className="leaderboard-windows" role="group" aria-label="Time window">
+          {LEADERBOARD_WINDOWS.map(({ id, label }) => (
+            <button
+              key={id}
+              type="button"
+              className={`leaderboard-window${shownWindow === id ? ' active' : ''}`}
+              aria-pressed={shownWindow === id}
+              disabled={!windowsSupported && id !== 'all'}
+              onClick={() => changeWindow(id)}
+            >
+              {label}
+            </button>
           ))}
-        </tbody>
-      </table>
+        </div>
+        <input
+          type="search"
+          className="leaderboard-search"
+          value={searchInput}
+          onChange={(e) => {
+            setSearchInput(e.target.value);
+            applySearch(e.target.value);
+          }}
+          placeholder="Search players"
+          aria-label="Search players"
+        />
+      </div>
+      {!windowsSupported && (
+        <p className="leaderboard-notice">This server only keeps all-time rankings.</p>
+      )}
+      {entries.length === 0 && !search.trim() ? (
+        <div className="leaderboard-empty">No games played yet</div>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>Rank</th>
+              <th>Player</th>
+              {SORT_COLUMNS.map(({ key, label }) => (
+                <th key={key} aria-sort={sort === key ? 'descending' : 'none'}>
+                  <button type="button" className="sort-button" onClick={() => changeSort(key)}>
+                    {label}
+                    {sort === key && ' ▼'}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {entries.length === 0 && (
+              <tr>
+                <td colSpan={5} className="leaderboard-no-match">No players match “{search.trim()}”</td>
+              </tr>
+            )}
+            {entries.map(player => renderRow(player))}
+            {you && !youOnPage && renderRow(you, true)}
+          </tbody>
+        </table>
+      )}
+      {pages > 1 && (
+        <div className="leaderboard-pager">
+          <button type="button" className="btn btn-secondary btn-sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+            ‹ Prev
+          </button>
+          <span>Page {page} of {pages}</span>
+          <button type="button" className="btn btn-secondary btn-sm" onClick={() => setPage(page + 1)} disabled={page >= pages}>
+            Next ›
+          </button>
+        </div>
+      )}
+      {error && <p className="leaderboard-stale" role="status">Couldn't refresh: {error.message}</p>}
     </div>
   );
 };
 
-export default Leaderboard;
\ No newline at end of file
+export default Leaderboard;
@@ -1,33 +1,100 @@
 import React, { useState } from 'react';
+import { useUsernameAvailability } from '../../hooks/useUsernameAvailability';
+import { ApiError } from '../../utils/api';
+import { AuthMode, MIN_PASSWORD_LENGTH, authErrorMessage, login, register, startGuestSession } from '../../utils/auth';
+import { UsernameStatus, validateUsername } from '../../utils/usernames';
 import './Login.css';
 
 interface LoginProps {
-  onLogin: (username: string) => void;
+  // Name used last time in this tab
+  initialUsername?: string | null;
+  // Why the player was signed out, e.g. an expired session
+  notice?: string;
+  onDismissNotice?: () => void;
 }
 
-const Login: React.FC<LoginProps> = ({ onLogin }) => {
-  const [username, setUsername] = useState('');
+const MODE_LABELS: Record<AuthMode, string> = {
+  guest: 'Guest',
+  login: 'Log in',
+  register: 'Register',
+};
+
+const SUBMIT_LABELS: Record<AuthMode, string> = {
+  guest: 'Start Playing',
+  login: 'Log In',
+  register: 'Create Account',
+};
+
+const STATUS_TEXT: Partial<Record<UsernameStatus, string>> = {
+  checking: 'Checking availability...',
+  available: '✓ Available',
+  taken: '✗ Already taken',
+  reserved: '✗ This name is reserved',
+};
+
+const Login: React.FC<LoginProps> = ({ initialUsername = null, notice = '', onDismissNotice }) => {
+  const [mode, setMode] = useState<AuthMode>('guest');
+  const [username, setUsername] = useState(initialUsername ?? '');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  // Logins need an existing name, so only new names are checked
+  const availability = useUsernameAvailability(username, mode !== 'login');
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!username.trim()) {
-      setError('Username is required');
-      return;
-    }
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setError('');
+    setPassword('');
+    setConfirmPassword('');
+  };
 
-    if (username.length < 3 || username.length > 20) {
-      setError('Username must be between 3 and 20 characters');
-      return;
+  const validate = (): string => {
+    const usernameError = validateUsername(username);
+    if (usernameError) return usernameError;
+    if (availability.status === 'reserved') return 'That name is reserved. Please pick another.';
+    if (availability.status === 'taken') return 'That name is already taken. Please pick another.';
+    if (mode === 'guest') return '';
+    if (!password) return 'Password is required';
+    if (mode === 'register') {
+      if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+      if (password !== confirmPassword) return "Passwords don't match";
     }
+    return '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting) return;
 
-    if (!/^[a-zA-Z0-9_-]+$/.test(username)) {
-      setError('Username can only contain letters, numbers, underscores, and hyphens');
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
       return;
     }
 
-    onLogin(username);
+    setError('');
+    setSubmitting(true);
+    onDismissNotice?.();
+    try {
+      // Success starts a session, and App moves on from this screen
+      if (mode === 'guest') {
+        await startGuestSession(username);
+      } else if (mode === 'login') {
+        await login({ username, password });
+      } else {
+        await register({ username, password });
+      }
+    } catch (err) {
+      // Taken since it was checked
+      if (err instanceof ApiError && err.status === 409) {
+        availability.markTaken();
+        setError('Someone just took that name. Try one of the suggestions below.');
+      } else {
+        setError(authErrorMessage(err, mode));
+      }
+      setSubmitting(false);
+    }
   };
 
   return (
@@ -36,6 +103,30 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
         <div className="login-icon">🎮</div>
         <h1>Connect 4</h1>
         <p className="login-subtitle">Challenge friends or test your skills against AI</p>
+        {notice && (
+          <div className="login-notice" role="alert">
+            <span>🔒 {notice}</span>
+            {onDismissNotice && (
+              <button type="button" className="login-notice-dismiss" onClick={onDismissNotice} aria-label="Dismiss">
+                ✕
+              </button>
+            )}
+          </div>
+        )}
+        <div className="login-tabs" role="tablist" aria-label="How to play">
+          {(Object.keys(MODE_LABELS) as AuthMode[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              role="tab"
+              aria-selected={mode === option}
+              className={`login-tab${mode === option ? ' active' : ''}`}
+              onClick={() => switchMode(option)}
+            >
+              {MODE_LABELS[option]}
+            </button>
+          ))}
+        </div>
         <form onSubmit={handleSubmit}>
           <div className="input-group">
             <label htmlFor="username">Username</label>
@@ -49,25 +140,79 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
               }}
               placeholder="Enter your username..."
               maxLength={20}
+              autoComplete="username"
               autoFocus
+              aria-describedby="username-status"
             />
-            {error && (
-              <div className="error">
-                <span>⚠️</span>
-                {error}
+            <div id="username-status" className={`username-status ${availability.status}`} aria-live="polite">
+              {STATUS_TEXT[availability.status]}
+            </div>
+            {availability.suggestions.length > 0 && (
+              <div className="username-suggestions">
+                Try:
+                {availability.suggestions.map(suggestion => (
+                  <button
+                    key={suggestion}
+                    type="button"
+                    className="username-suggestion"
+                    onClick={() => {
+                      setUsername(suggestion);
+                      setError('');
+                    }}
+                  >
+                    {suggestion}
+                  </button>
+                ))}
               </div>
             )}
           </div>
-          <button type="submit" className="login-button">
-            <span>▶</span> Start Playing
+          {mode !== 'guest' && (
+            <div className="input-group">
+              <label htmlFor="password">Password</label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setError('');
+                }}
+                autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+              />
+            </div>
+          )}
+          {mode === 'register' && (
+            <div className="input-group">
+              <label htmlFor="confirm-password">Confirm password</label>
+              <input
+                type="password"
+                id="confirm-password"
+                value={confirmPassword}
+                onChange={(e) => {
+                  setConfirmPassword(e.target.value);
+                  setError('');
+                }}
+                autoComplete="new-password"
+              />
+            </div>
+          )}
+          {error && (
+            <div className="error">
+              <span>⚠️</span>
+              {error}
+            </div>
+          )}
+          <button type="submit" className="login-button" disabled={submitting}>
+            <span>▶</span> {submitting ? 'Please wait...' : SUBMIT_LABELS[mode]}
           </button>
         </form>
         <div className="login-footer">
           <p>3-20 characters • Letters, numbers, underscores & hyphens only</p>
+          {mode === 'guest' && <p>Guests can't use a name that belongs to a registered player.</p>}
         </div>
       </div>
     </div>
   );
 };
 
-export default Login;
\ No newline at end of file
+export default Login;
@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { GameRecord } from '../../types';
+import {
+  MatchHistoryEntry,
+  MatchOutcome,
+  listMatches,
+  deleteMatch,
+  clearMatches,
+  addMatchHistoryListener,
+  removeMatchHistoryListener,
+} from '../../utils/matchHistory';
+import './MatchHistory.css';
+
+type OutcomeFilter = MatchOutcome | 'all';
+
+const OUTCOME_LABELS: Record<MatchOutcome, string> = {
+  win: 'Won',
+  loss: 'Lost',
+  draw: 'Draw',
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+interface MatchHistoryProps {
+  // Only this player's games are listed
+  username: string;
+  onOpenReplay: (record: GameRecord) => void;
+}
+
+const MatchHistory: React.FC<MatchHistoryProps> = ({ username, onOpenReplay }) => {
+  const [matches, setMatches] = useState<MatchHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [opponentFilter, setOpponentFilter] = useState('');
+  const [outcomeFilter, setOutcomeFilter] = useState<OutcomeFilter>('all');
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      setMatches(await listMatches(username));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load match history');
+    } finally {
+      setLoading(false);
+    }
+  }, [username]);
+
+  useEffect(() => {
+    refresh();
+    addMatchHistoryListener(refresh);
+    return () => removeMatchHistoryListener(refresh);
+  }, [refresh]);
+
+  const visible = useMemo(() => {
+    const query = opponentFilter.trim().toLowerCase();
+    return matches.filter(match =>
+      (outcomeFilter === 'all' || match.outcome === outcomeFilter) &&
+      (!query || match.opponent.toLowerCase().includes(query))
+    );
+  }, [matches, opponentFilter, outcomeFilter]);
+
+  const handleDelete = (id: string) => {
+    deleteMatch(id).catch(error => setError(error instanceof Error ? error.message : 'Failed to delete game'));
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Delete all your saved games from this device?')) return;
+    clearMatches(username).catch(error => setError(error instanceof Error ? error.message : 'Failed to clear history'));
+  };
+
+  if (loading) {
+    return <div className="match-history-loading">Loading match history...</div>;
+  }
+
+  return (
+    <div className="match-history">
+      <h2>Match History</h2>
+      {error && <div className="match-history-error">Error: {error}</div>}
+
+      {matches.length === 0 ? (
+        <div className="match-history-empty">Finished games will appear here</div>
+      ) : (
+        <>
+          <div className="match-history-filters">
+            <input
+              type="search"
+              placeholder="Filter by opponent"
+              value={opponentFilter}
+              onChange={e => setOpponentFilter(e.target.value)}
+              aria-label="Filter by opponent"
+            />
+            <select
+              value={outcomeFilter}
+              onChange={e => setOutcomeFilter(e.target.value as OutcomeFilter)}
+              aria-label="Filter by result"
+            >
+              <option value="all">All results</option>
+              <option value="win">Wins</option>
+              <option value="loss">Losses</option>
+              <option value="draw">Draws</option>
+            </select>
+          </div>
+
+          {visible.length === 0 ? (
+            <div className="match-history-empty">No games match these filters</div>
+          ) : (
+            <ul className="match-history-list">
+              {visible.map(match => (
+                <li key={match.id} className="match-history-item">
+                  <div className="match-summary">
+                    <span className={`match-outcome ${match.outcome}`}>{OUTCOME_LABELS[match.outcome]}</span>
+                    <span className="match-opponent">
+                      vs {match.opponentIsBot && '🤖 '}{match.opponent}
+                    </span>
+                  </div>
+                  <div className="match-meta">
+                    {new Date(match.playedAt).toLocaleString()} · {match.record.moves.length} moves · {formatDuration(match.durationMs)}
+                  </div>
+                  <div className="match-actions">
+                    {match.record.incomplete ? (
+                      <span className="match-incomplete" title="Moves before you joined were not recorded">
+                        Partial record
+                      </span>
+                    ) : (
+                      <button className="btn btn-sm btn-primary" onClick={() => onOpenReplay(match.record)}>
+                        ▶ Replay
+                      </button>
+                    )}
+                    <button className="btn btn-sm btn-secondary" onClick={() => handleDelete(match.id)}>
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <button className="match-history-clear" onClick={handleClear}>
+            Clear history
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MatchHistory;
@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo } from 'react';
+import { useApi } from '../../hooks/useApi';
+import { ApiError, headToHeadResource, playerProfileResource, recentGamesResource } from '../../utils/api';
+import { computeStreaks, formatRecord, splitByOpponent } from '../../utils/profile';
+import { GameOutcome, RecordSplit } from '../../types';
+import './PlayerProfile.css';
+
+interface PlayerProfileProps {
+  username: string;
+  // Whoever is looking; their head-to-head record is shown on other profiles
+  viewer?: string | null;
+  onSelectPlayer: (username: string) => void;
+  onClose: () => void;
+}
+
+const OUTCOME_LABELS: Record<GameOutcome, string> = {
+  win: 'Win',
+  loss: 'Loss',
+  draw: 'Draw',
+};
+
+const formatDate = (timestamp: number | null) =>
+  timestamp === null ? '' : new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const PlayerProfile: React.FC<PlayerProfileProps> = ({ username, viewer = null, onSelectPlayer, onClose }) => {
+  const profileResource = useMemo(() => playerProfileResource(username), [username]);
+  const gamesResource = useMemo(() => recentGamesResource(username), [username]);
+  const headToHead = useMemo(
+    () => (viewer && viewer !== username ? headToHeadResource(username, viewer) : null),
+    [username, viewer]
+  );
+
+  const profile = useApi(profileResource, { staleTimeMs: 10000 });
+  const games = useApi(gamesResource, { staleTimeMs: 10000 });
+  const versus = useApi(headToHead, { staleTimeMs: 10000 });
+
+  // ⌨️ Escape closes the profile
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  // Servers that do not track streaks or splits get them from recent games
+  const recent = games.data ?? [];
+  const derivedStreaks = computeStreaks(recent);
+  const derivedSplit = splitByOpponent(recent);
+  const stats = profile.data;
+  const fromRecent = !!stats && (stats.bestStreak === undefined || stats.vsBots === undefined);
+
+  const renderSplit = (label: string, record: RecordSplit) => (
+    <div className="profile-split">
+      <span className="profile-split-label">{label}</span>
+      <span className="profile-split-record">{formatRecord(record)}</span>
+    </div>
+  );
+
+  const renderBody = () => {
+    if (profile.error && !stats) {
+      const notFound = profile.error instanceof ApiError && profile.error.status === 404;
+      return (
+        <div className="profile-error">
+          {notFound ? `${username} hasn't played any games yet.` : `Error: ${profile.error.message}`}
+        </div>
+      );
+    }
+    if (!stats) {
+      return <div className="profile-loading">Loading profile...</div>;
+    }
+
+    return (
+      <>
+        <div className="profile-stats">
+          <div className="profile-stat"><span>{stats.gamesPlayed}</span>Played</div>
+          <div className="profile-stat"><span>{stats.gamesWon}</span>Won</div>
+          <div className="profile-stat"><span>{stats.winPercentage.toFixed(1)}%</span>Win rate</div>
+          <div className="profile-stat"><span>{stats.currentStreak ?? derivedStreaks.current}</span>Current streak</div>
+          <div className="profile-stat"><span>{stats.bestStreak ?? derivedStreaks.best}</span>Best streak</div>
+        </div>
+
+        <div className="profile-splits">
+          {renderSplit('🤖 vs bots', stats.vsBots ?? derivedSplit.vsBots)}
+          {renderSplit('🧑 vs humans', stats.vsHumans ?? derivedSplit.vsHumans)}
+          {headToHead && (
+            versus.data
+              ? renderSplit('⚔️ vs you', versus.data)
+              : <div className="profile-split muted">{versus.error ? 'Head-to-head unavailable' : 'Loading head-to-head...'}</div>
+          )}
+        </div>
+        {fromRecent && <p className="profile-note">Streaks and splits are based on the last {recent.length} games.</p>}
+
+        <h3>Recent games</h3>
+        {games.error && !games.data ? (
+          <div className="profile-error">Couldn't load recent games.</div>
+        ) : !games.data ? (
+          <div className="profile-loading">Loading games...</div>
+        ) : recent.length === 0 ? (
+          <div className="profile-empty">No games played yet</div>
+        ) : (
+          <ul className="profile-games">
+            {recent.map(game => (
+              <li key={game.gameId} className="profile-game">
+                <span className={`outcome-badge ${game.outcome}`}>{OUTCOME_LABELS[game.outcome]}</span>
+                <span className="profile-game-opponent">
+                  vs{' '}
+                  {game.opponentIsBot ? (
+                    <>🤖 {game.opponent}</>
+                  ) : (
+                    <button type="button" className="player-link" onClick={() => onSelectPlayer(game.opponent)}>
+                      {game.opponent}
+                    </button>
+                  )}
+                </span>
+                <span className="profile-game-date">{formatDate(game.endedAt)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="profile-overlay" onClick={onClose}>
+      <div
+        className="profile-modal"
+        role="dialog"
+        aria-label={`${username}'s profile`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="profile-header">
+          <h2>
+            {username}
+            {username === viewer && <span className="profile-you">You</span>}
+          </h2>
+          <button type="button" className="profile-close" onClick={onClose} aria-label="Close profile">✕</button>
+        </div>
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
+
+export default PlayerProfile;
@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Board from '../GameBoard/Board';
+import { buildBoardHistory, findWinningLine } from '../../utils/gameRules';
+import { GameRecord } from '../../types';
+import './Replay.css';
+
+interface ReplayProps {
+  record: GameRecord;
+  onClose: () => void;
+}
+
+const BASE_STEP_MS = 1000;
+const SPEEDS = [0.5, 1, 2, 4];
+
+const Replay: React.FC<ReplayProps> = ({ record, onClose }) => {
+  const history = useMemo(
+    () => buildBoardHistory(record.moves, record.rows, record.columns),
+    [record]
+  );
+  const lastStep = history.length - 1;
+
+  const [step, setStep] = useState(lastStep);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // ▶️ Autoplay: advance one move per tick, stopping at the end
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= lastStep) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setStep(s => Math.min(s + 1, lastStep)), BASE_STEP_MS / speed);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, step, lastStep, speed]);
+
+  const board = history[step];
+  const move = step > 0 ? record.moves[step - 1] : undefined;
+  const winningCells = useMemo(() => findWinningLine(board)?.cells, [board]);
+  const playerName = (player: number) =>
+    (player === 1 ? record.player1?.username : record.player2?.username) ?? `Player ${player}`;
+
+  const togglePlay = () => {
+    // Restart from the beginning when play is pressed at the end
+    if (!isPlaying && step >= lastStep) setStep(0);
+    setIsPlaying(p => !p);
+  };
+
+  const goTo = (next: number) => {
+    setIsPlaying(false);
+    setStep(Math.max(0, Math.min(next, lastStep)));
+  };
+
+  return (
+    <div className="replay-overlay">
+      <div className="replay-modal" role="dialog" aria-label="Game replay">
+        <div className="replay-header">
+          <h2>Replay</h2>
+          <p className="replay-players">
+            <span className="turn-disc player1" /> {playerName(1)}
+            <span className="replay-vs">vs</span>
+            <span className="turn-disc player2" /> {playerName(2)}
+          </p>
+        </div>
+
+        {record.result && (
+          <p className="replay-result">
+            {record.result.isDraw ? 'Draw' : `${record.result.winner} won`}
+          </p>
+        )}
+
+        <Board board={board} highlightedCell={move} winningCells={winningCells} />
+
+        <p className="replay-caption">
+          {move
+            ? `Move ${step} of ${lastStep}: ${playerName(move.player)} → column ${move.column + 1}`
+            : `Start position (${lastStep} moves)`}
+        </p>
+
+        <input
+          className="replay-timeline"
+          type="range"
+          min={0}
+          max={lastStep}
+          value={step}
+          onChange={(e) => goTo(Number(e.target.value))}
+          aria-label="Replay timeline"
+        />
+
+        <div className="replay-controls">
+          <button className="btn btn-secondary btn-sm" onClick={() => goTo(0)} disabled={step === 0} aria-label="First move">⏮</button>
+          <button className="btn btn-secondary btn-sm" onClick={() => goTo(step - 1)} disabled={step === 0} aria-label="Previous move">◀</button>
+          <button className="btn btn-primary btn-sm" onClick={togglePlay} aria-label={isPlaying ? 'Pause' : 'Play'}>
+            {isPlaying ? '⏸' : '▶'}
+          </button>
+          <button className="btn btn-secondary btn-sm" onClick={() => goTo(step + 1)} disabled={step === lastStep} aria-label="Next move">▶|</button>
+          <button className="btn btn-secondary btn-sm" onClick={() => goTo(lastStep)} disabled={step === lastStep} aria-label="Last move">⏭</button>
+          <select
+            className="replay-speed"
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            aria-label="Playback speed"
+          >
+            {SPEEDS.map(s => (
+              <option key={s} value={s}>{s}×</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="replay-footer">
+          <button className="btn btn-secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Replay;
@@ -0,0 +1,44 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StorageError,
+  StorageQuotaError,
+  addStorageErrorListener,
+  removeStorageErrorListener,
+} from '../../utils/storageErrors';
+import { isUsingMemoryStorage } from '../../utils/localStorage';
+import './StorageNotice.css';
+
+type NoticeKind = 'unavailable' | 'quota';
+
+const NOTICE_TEXT: Record<NoticeKind, string> = {
+  unavailable: "This browser isn't letting us save data (private browsing?). Your game will be lost if you reload the page.",
+  quota: "Your browser's storage is full, so the latest progress couldn't be saved.",
+};
+
+// Banner shown when saving fails or has fallen back to memory
+const StorageNotice: React.FC = () => {
+  const [notice, setNotice] = useState<NoticeKind | null>(() =>
+    isUsingMemoryStorage() ? 'unavailable' : null
+  );
+
+  useEffect(() => {
+    const onError = (error: StorageError) => {
+      setNotice(error instanceof StorageQuotaError ? 'quota' : 'unavailable');
+    };
+    addStorageErrorListener(onError);
+    return () => removeStorageErrorListener(onError);
+  }, []);
+
+  if (!notice) return null;
+
+  return (
+    <div className={`storage-notice ${notice}`} role="status">
+      <span>⚠️ {NOTICE_TEXT[notice]}</span>
+      <button className="storage-notice-dismiss" onClick={() => setNotice(null)} aria-label="Dismiss">
+        ✕
+      </button>
+    </div>
+  );
+};
+
+export default StorageNotice;
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiResource, isAbortError, loadResource, readCached, writeCached } from '../utils/api';
+
+interface UseApiOptions {
+  // Cached data younger than this is shown without refetching
+  staleTimeMs?: number;
+}
+
+interface ApiState<T> {
+  key: string | null;
+  data: T | undefined;
+  error: Error | null;
+  loading: boolean;
+}
+
+// Cached data for a key is shown straight away while it revalidates
+const initialState = <T>(key: string | null): ApiState<T> => ({
+  key,
+  data: key ? readCached<T>(key)?.data : undefined,
+  error: null,
+  loading: key !== null,
+});
+
+// Loads an API resource, refetching when its key changes and aborting
+// whatever is in flight on change or unmount. Pass null to load nothing.
+export const useApi = <T>(resource: ApiResource<T> | null, { staleTimeMs = 0 }: UseApiOptions = {}) => {
+  const key = resource?.key ?? null;
+  const [state, setState] = useState<ApiState<T>>(() => initialState(key));
+  const view = state.key === key ? state : initialState<T>(key);
+
+  const resourceRef = useRef(resource);
+  resourceRef.current = resource;
+  // Latest data, ahead of the next render, so mutations build on each other
+  const dataRef = useRef({ key, data: view.data });
+  dataRef.current = { key, data: view.data };
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Resolves with the fresh data, or undefined if superseded; rejects on failure
+  const reload = useCallback(async (): Promise<T | undefined> => {
+    const current = resourceRef.current;
+    if (!current) return undefined;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setState(prev => ({ ...(prev.key === current.key ? prev : initialState<T>(current.key)), loading: true }));
+
+    try {
+      const data = await loadResource(current, { signal: controller.signal });
+      if (controllerRef.current === controller) {
+        dataRef.current = { key: current.key, data };
+        setState({ key: current.key, data, error: null, loading: false });
+      }
+      return data;
+    } catch (error) {
+      if (isAbortError(error)) return undefined;
+      if (controllerRef.current === controller) {
+        setState(prev => ({
+          ...(prev.key === current.key ? prev : initialState<T>(current.key)),
+          error: error instanceof Error ? error : new Error(String(error)),
+          loading: false,
+        }));
+      }
+      throw error;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!key) return;
+    const cached = readCached(key);
+    if (!cached || Date.now() - cached.fetchedAt >= staleTimeMs) {
+      reload().catch(() => {});
+    } else {
+      setState({ key, data: cached.data as T, error: null, loading: false });
+    }
+    return () => controllerRef.current?.abort();
+  }, [key, staleTimeMs, reload]);
+
+  // Local edits (pushes, optimistic updates) go into the cache as well
+  const mutate = useCallback((update: (data: T | undefined) => T | undefined) => {
+    const current = resourceRef.current;
+    if (!current) return;
+    // Applied to the latest data so back-to-back pushes are not lost
+    const latest = dataRef.current.key === current.key ? dataRef.current.data : readCached<T>(current.key)?.data;
+    const data = update(latest);
+    if (data === undefined) return;
+    dataRef.current = { key: current.key, data };
+    writeCached(current.key, data);
+    setState(prev => ({ ...(prev.key === current.key ? prev : initialState<T>(current.key)), data, loading: false }));
+  }, []);
+
+  return {
+    data: view.data,
+    error: view.error,
+    loading: view.loading,
+    reload,
+    mutate,
+  };
+};
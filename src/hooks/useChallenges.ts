@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GameChannel, toLocalTime } from '../utils/protocol';
+import { CHALLENGE_CLOSE_MESSAGES, CHALLENGE_TIMEOUT_MS } from '../utils/lobby';
+import { Challenge, TimeControl } from '../types';
+
+const NOTICE_DURATION_MS = 4000;
+
+interface UseChallengesProps {
+  channel: GameChannel;
+  username: string | null;
+  // Off while spectating or without a socket; nothing is sent or received
+  enabled: boolean;
+  // Clock offered with our challenges
+  timeControl?: TimeControl | null;
+  // Both players are sent here once a challenge is accepted
+  onAccepted: (roomCode: string, opponent: string) => void;
+}
+
+export const useChallenges = ({ channel, username, enabled, timeControl = null, onAccepted }: UseChallengesProps) => {
+  // Challenge we sent; its id is empty until the server acknowledges it
+  const [outgoing, setOutgoing] = useState<Challenge | null>(null);
+  const [incoming, setIncoming] = useState<Challenge[]>([]);
+  const [notice, setNotice] = useState('');
+  const [now, setNow] = useState(Date.now);
+
+  // Read inside the channel listener without resubscribing
+  const onAcceptedRef = useRef(onAccepted);
+  onAcceptedRef.current = onAccepted;
+  const outgoingRef = useRef(outgoing);
+  outgoingRef.current = outgoing;
+  const incomingRef = useRef(incoming);
+  incomingRef.current = incoming;
+
+  const noticeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const showNotice = useCallback((text: string) => {
+    setNotice(text);
+    if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current);
+    noticeTimerRef.current = setTimeout(() => setNotice(''), NOTICE_DURATION_MS);
+  }, []);
+
+  useEffect(() => () => {
+    if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      setOutgoing(null);
+      setIncoming([]);
+      return;
+    }
+    return channel.subscribe((message) => {
+      switch (message.type) {
+        case 'challengeSent': {
+          const { challengeId, to, expiresAt, serverTime } = message.payload;
+          setOutgoing(current => (current && current.to === to
+            ? {
+              ...current,
+              id: challengeId,
+              expiresAt: expiresAt === null ? current.expiresAt : toLocalTime(expiresAt, serverTime),
+            }
+            : current));
+          break;
+        }
+        case 'challengeReceived': {
+          const { challengeId, from, expiresAt, serverTime, timeControl: offered } = message.payload;
+          const challenge: Challenge = {
+            id: challengeId,
+            from,
+            to: username ?? '',
+            expiresAt: expiresAt === null ? Date.now() + CHALLENGE_TIMEOUT_MS : toLocalTime(expiresAt, serverTime),
+            ...(offered ? { timeControl: offered } : {}),
+          };
+          // A repeat from the same player replaces their earlier challenge
+          setIncoming(prev => [...prev.filter(c => c.id !== challengeId && c.from !== from), challenge]);
+          break;
+        }
+        case 'challengeAccepted': {
+          const { challengeId, roomCode, opponent } = message.payload;
+          setOutgoing(null);
+          setIncoming(prev => prev.filter(c => c.id !== challengeId));
+          onAcceptedRef.current(roomCode, opponent);
+          break;
+        }
+        case 'challengeClosed': {
+          const { challengeId, reason, message: serverMessage } = message.payload;
+          const sent = outgoingRef.current;
+          if (sent && (challengeId === null || sent.id === challengeId || !sent.id)) {
+            setOutgoing(null);
+            const text = CHALLENGE_CLOSE_MESSAGES[reason];
+            showNotice(serverMessage ?? (reason === 'declined' ? `${sent.to} ${text}` : text));
+          }
+          const closed = incomingRef.current.find(c => c.id === challengeId);
+          if (closed) {
+            setIncoming(prev => prev.filter(c => c.id !== closed.id));
+            if (reason === 'cancelled') showNotice(`${closed.from} ${CHALLENGE_CLOSE_MESSAGES.cancelled}`);
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    });
+  }, [channel, username, enabled, showNotice]);
+
+  // Drop offers that lapse without word from the server
+  const pending = outgoing !== null || incoming.length > 0;
+  useEffect(() => {
+    if (!pending) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [pending]);
+
+  useEffect(() => {
+    if (outgoing && outgoing.expiresAt <= now) {
+      setOutgoing(null);
+      showNotice(CHALLENGE_CLOSE_MESSAGES.expired);
+    }
+    if (incoming.some(c => c.expiresAt <= now)) {
+      setIncoming(prev => prev.filter(c => c.expiresAt > now));
+    }
+  }, [now, outgoing, incoming, showNotice]);
+
+  const challenge = useCallback((to: string) => {
+    if (!enabled || !username || outgoingRef.current) return;
+    const payload = { to, ...(timeControl ? { timeControl } : {}) };
+    if (!channel.send({ type: 'challenge', payload })) {
+      showNotice('Not connected — challenge not sent');
+      return;
+    }
+    setOutgoing({
+      id: '',
+      from: username,
+      to,
+      expiresAt: Date.now() + CHALLENGE_TIMEOUT_MS,
+      ...(timeControl ? { timeControl } : {}),
+    });
+  }, [channel, enabled, username, timeControl, showNotice]);
+
+  const cancel = useCallback(() => {
+    const sent = outgoingRef.current;
+    if (!sent) return;
+    if (sent.id) channel.send({ type: 'cancelChallenge', payload: { challengeId: sent.id } });
+    setOutgoing(null);
+  }, [channel]);
+
+  const respond = useCallback((challengeId: string, accept: boolean) => {
+    if (!channel.send({ type: 'challengeResponse', payload: { challengeId, accept } })) {
+      showNotice('Not connected — could not answer the challenge');
+      return;
+    }
+    // Accepted challenges close when the server confirms the room
+    if (!accept) setIncoming(prev => prev.filter(c => c.id !== challengeId));
+  }, [channel, showNotice]);
+
+  return {
+    outgoing,
+    incoming,
+    notice,
+    now,
+    challenge,
+    cancel,
+    respond,
+  };
+};
+
+export type LobbyChallenges = ReturnType<typeof useChallenges>;
@@ -1,43 +1,84 @@
-import { useCallback, useEffect } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 
 interface UseGameAccessibilityProps {
+  // Board width; number keys and the cursor stay within it
+  columns: number;
+  // False while it is not this player's move
   isMyTurn: boolean;
   onMove: (column: number) => void;
-  gameStatus: string;
-  currentPlayer: number;
+  player1?: string;
+  player2?: string;
 }
 
+// Keys typed into chat or other fields are not moves
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
 export const useGameAccessibility = ({
+  columns,
   isMyTurn,
   onMove,
-  gameStatus,
-  currentPlayer
+  player1,
+  player2,
 }: UseGameAccessibilityProps) => {
-  const handleKeyPress = useCallback((e: KeyboardEvent) => {
-    if (!isMyTurn) return;
-
-    // Number keys 1-7 for column selection
-    const column = parseInt(e.key) - 1;
-    if (column >= 0 && column < 7) {
-      onMove(column);
-    }
-  }, [isMyTurn, onMove]);
+  // Column the keyboard cursor is on; starts in the middle
+  const [cursor, setCursor] = useState(() => Math.floor(columns / 2));
+  const column = Math.max(0, Math.min(cursor, columns - 1));
 
+  // Number keys 1–9 drop straight into that column from anywhere on the page
   useEffect(() => {
-    document.addEventListener('keypress', handleKeyPress);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isMyTurn || e.altKey || e.ctrlKey || e.metaKey || isTypingTarget(e.target)) return;
+      const target = parseInt(e.key, 10) - 1;
+      if (target >= 0 && target < columns) {
+        e.preventDefault();
+        setCursor(target);
+        onMove(target);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
     return () => {
-      document.removeEventListener('keypress', handleKeyPress);
+      document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [handleKeyPress]);
+  }, [isMyTurn, onMove, columns]);
 
-  const getAriaLabel = (row: number, col: number, value: number) => {
-    const position = `Row ${row + 1}, Column ${col + 1}`;
-    const state = value === 0 ? 'empty' : `occupied by Player ${value}`;
-    const turnInfo = isMyTurn ? "Your turn" : "Opponent's turn";
-    return `${position}. Cell is ${state}. ${gameStatus}. ${turnInfo}`;
-  };
+  // Arrow keys move the cursor on the focused board; Enter or Space drops
+  const handleBoardKeyDown = useCallback((e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowLeft':
+        setCursor(Math.max(0, column - 1));
+        break;
+      case 'ArrowRight':
+        setCursor(Math.min(columns - 1, column + 1));
+        break;
+      case 'Home':
+        setCursor(0);
+        break;
+      case 'End':
+        setCursor(columns - 1);
+        break;
+      case 'Enter':
+      case ' ':
+        if (isMyTurn) onMove(column);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }, [column, columns, isMyTurn, onMove]);
+
+  const getAriaLabel = useCallback((row: number, col: number, value: number) => {
+    const position = `Row ${row + 1}, column ${col + 1}`;
+    if (value === 0) return `${position}, empty`;
+    const owner = (value === 1 ? player1 : player2) ?? `Player ${value}`;
+    return `${position}, ${owner}'s disc`;
+  }, [player1, player2]);
 
   return {
-    getAriaLabel
+    cursorColumn: column,
+    setCursorColumn: setCursor,
+    handleBoardKeyDown,
+    getAriaLabel,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GameChannel } from '../utils/protocol';
+import { createRateLimiter, prepareChatText } from '../utils/chat';
+import { EmoteId } from '../types';
+
+export interface ChatEntry {
+  id: number;
+  from: string;
+  text: string;
+  sentAt: number;
+  own: boolean;
+}
+
+// Emote currently floating over the board
+export interface EmoteBurst {
+  id: number;
+  emote: EmoteId;
+  own: boolean;
+}
+
+const EMOTE_DURATION_MS = 2000;
+const NOTICE_DURATION_MS = 3000;
+
+interface UseGameChatProps {
+  channel: GameChannel;
+  username: string;
+  // False against bots and on shared devices; nothing is sent or received
+  enabled: boolean;
+}
+
+export const useGameChat = ({ channel, username, enabled }: UseGameChatProps) => {
+  const [messages, setMessages] = useState<ChatEntry[]>([]);
+  const [emotes, setEmotes] = useState<EmoteBurst[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const [filterEnabled, setFilterEnabled] = useState(true);
+  const [notice, setNotice] = useState('');
+
+  const nextIdRef = useRef(0);
+  const chatLimiterRef = useRef(createRateLimiter(5, 10000));
+  const emoteLimiterRef = useRef(createRateLimiter(3, 5000));
+  const timersRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+
+  // Read inside the channel listener without resubscribing
+  const stateRef = useRef({ username, isOpen, muted });
+  stateRef.current = { username, isOpen, muted };
+
+  const later = useCallback((callback: () => void, ms: number) => {
+    const timer = setTimeout(() => {
+      timersRef.current.delete(timer);
+      callback();
+    }, ms);
+    timersRef.current.add(timer);
+  }, []);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach(clearTimeout);
+      timers.clear();
+    };
+  }, []);
+
+  const showEmote = useCallback((emote: EmoteId, own: boolean) => {
+    const id = nextIdRef.current++;
+    setEmotes(prev => [...prev, { id, emote, own }]);
+    later(() => setEmotes(prev => prev.filter(burst => burst.id !== id)), EMOTE_DURATION_MS);
+  }, [later]);
+
+  const showNotice = useCallback((text: string) => {
+    setNotice(text);
+    later(() => setNotice(current => (current === text ? '' : current)), NOTICE_DURATION_MS);
+  }, [later]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return channel.subscribe((message) => {
+      const { username: me, isOpen: open, muted: isMuted } = stateRef.current;
+      switch (message.type) {
+        case 'gameStart':
+          // History covers the current game only
+          if (message.payload.board.every(row => row.every(cell => cell === 0))) {
+            setMessages([]);
+            setUnread(0);
+          }
+          break;
+        case 'chat':
+          // Our own messages are added when sent
+          if (message.payload.from === me || isMuted) break;
+          setMessages(prev => [...prev, { id: nextIdRef.current++, ...message.payload, own: false }]);
+          if (!open) setUnread(count => count + 1);
+          break;
+        case 'emote':
+          if (message.payload.from === me || isMuted) break;
+          showEmote(message.payload.emote, false);
+          break;
+        default:
+          break;
+      }
+    });
+  }, [channel, enabled, showEmote]);
+
+  const sendMessage = useCallback((input: string): boolean => {
+    const text = prepareChatText(input);
+    if (!enabled || !text) return false;
+    if (!chatLimiterRef.current.tryAcquire()) {
+      const seconds = Math.ceil(chatLimiterRef.current.retryAfter() / 1000);
+      showNotice(`Slow down — you can send again in ${seconds}s`);
+      return false;
+    }
+    if (!channel.send({ type: 'chat', payload: { text } })) {
+      showNotice('Not connected — message not sent');
+      return false;
+    }
+    setMessages(prev => [...prev, { id: nextIdRef.current++, from: username, text, sentAt: Date.now(), own: true }]);
+    return true;
+  }, [channel, enabled, username, showNotice]);
+
+  const sendEmote = useCallback((emote: EmoteId) => {
+    if (!enabled) return;
+    if (!emoteLimiterRef.current.tryAcquire()) {
+      showNotice('Too many reactions — wait a moment');
+      return;
+    }
+    if (channel.send({ type: 'emote', payload: { emote } })) {
+      showEmote(emote, true);
+    }
+  }, [channel, enabled, showEmote, showNotice]);
+
+  const setOpen = useCallback((open: boolean) => {
+    setIsOpen(open);
+    if (open) setUnread(0);
+  }, []);
+
+  return {
+    messages,
+    emotes,
+    unread,
+    isOpen,
+    setOpen,
+    muted,
+    toggleMute: () => setMuted(value => !value),
+    filterEnabled,
+    toggleFilter: () => setFilterEnabled(value => !value),
+    notice,
+    sendMessage,
+    sendEmote,
+  };
+};
+
+export type GameChat = ReturnType<typeof useGameChat>;
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ConnectionState, GameConnection, createGameConnection } from '../utils/connection';
+import { ClientMessage, isOnlineGameMode } from '../utils/protocol';
+import { GameMode, RoomRequest, SpectateTarget, TimeControl } from '../types';
+
+interface UseGameConnectionProps {
+  username: string | null;
+  gameMode: GameMode | null;
+  // Private room to create or join instead of the public queue
+  room?: RoomRequest | null;
+  // Clock requested when queueing or creating a room
+  timeControl?: TimeControl | null;
+  // Watch this game read-only instead of playing
+  spectate?: SpectateTarget | null;
+}
+
+export const useGameConnection = ({
+  username,
+  gameMode,
+  room = null,
+  timeControl = null,
+  spectate = null,
+}: UseGameConnectionProps) => {
+  const connectionRef = useRef<GameConnection | null>(null);
+  if (!connectionRef.current) {
+    connectionRef.current = createGameConnection();
+  }
+  const connection = connectionRef.current;
+  const [state, setState] = useState<ConnectionState>(connection.getState);
+
+  useEffect(() => connection.onStateChange(setState), [connection]);
+
+  // Read at join time; changing it does not warrant a reconnect
+  const timeControlRef = useRef(timeControl);
+  timeControlRef.current = timeControl;
+
+  const spectateGameId = spectate?.gameId;
+  const spectatePlayer = spectate?.player ?? null;
+
+  const roomAction = room?.action ?? null;
+  const roomCode = room?.action === 'join' ? room.code : null;
+
+  // In the lobby the socket stays open so other players can challenge us
+  const inLobby = !gameMode && !spectatePlayer;
+  useEffect(() => {
+    if (!username || !inLobby) return;
+
+    const offOpen = connection.onOpen(() => {
+      connection.send({ type: 'lobby', payload: { username } });
+    });
+    connection.connect();
+
+    return () => {
+      offOpen();
+      connection.disconnect();
+    };
+  }, [connection, username, inLobby]);
+
+  // Rejoin as a spectator on every (re)open
+  useEffect(() => {
+    if (!username || !spectatePlayer) return;
+
+    const offOpen = connection.onOpen(() => {
+      connection.send({
+        type: 'spectate',
+        payload: { username, player: spectatePlayer, ...(spectateGameId ? { gameId: spectateGameId } : {}) },
+      });
+    });
+    connection.connect();
+
+    return () => {
+      offOpen();
+      connection.disconnect();
+    };
+  }, [connection, username, spectateGameId, spectatePlayer]);
+
+  // Join on every (re)open so the server re-attaches us to our game
+  useEffect(() => {
+    if (!username || !isOnlineGameMode(gameMode) || spectatePlayer) return;
+
+    // A room we created is rejoined by its code after a reconnect
+    let createdCode: string | null = null;
+    const offMessage = roomAction === 'create'
+      ? connection.subscribe((message) => {
+        if (message.type === 'roomCreated') createdCode = message.payload.roomCode;
+      })
+      : () => {};
+
+    const offOpen = connection.onOpen(() => {
+      const code = roomCode ?? createdCode;
+      const clock = timeControlRef.current ? { timeControl: timeControlRef.current } : {};
+      let message: ClientMessage;
+      if (code) {
+        message = { type: 'joinRoom', payload: { username, roomCode: code } };
+      } else if (roomAction === 'create') {
+        message = { type: 'createRoom', payload: { username, ...clock } };
+      } else {
+        message = { type: 'join', payload: { username, gameMode, ...clock } };
+      }
+      connection.send(message);
+    });
+    connection.connect();
+
+    return () => {
+      offMessage();
+      offOpen();
+      connection.disconnect();
+    };
+  }, [connection, username, gameMode, roomAction, roomCode, spectatePlayer]);
+
+  // Close the socket before page unload so the server sees a clean disconnect
+  useEffect(() => {
+    const handleBeforeUnload = () => connection.disconnect();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [connection]);
+
+  const retry = useCallback(() => connection.retryNow(), [connection]);
+  const cancelRetry = useCallback(() => connection.cancelRetry(), [connection]);
+
+  return {
+    state,
+    channel: connection,
+    retry,
+    cancelRetry,
+  };
+};
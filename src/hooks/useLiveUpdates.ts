@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from 'react';
+import { GameChannel, LiveTopic, ServerMessage } from '../utils/protocol';
+import { createPoller } from '../utils/polling';
+
+interface UseLiveUpdatesProps {
+  topic: LiveTopic;
+  // Socket to ask for pushes on; without one (or while it is down) we poll
+  channel?: GameChannel | null;
+  connected?: boolean;
+  // Reloads the resource over REST
+  load: () => Promise<unknown>;
+  // Called with every message on the socket; ignore the ones that do not apply
+  onPush: (message: ServerMessage) => void;
+  pollIntervalMs: number;
+  maxPollIntervalMs?: number;
+}
+
+// Keeps a REST resource fresh: pushed over the game socket when the server
+// supports it, otherwise polled while the tab is visible
+export const useLiveUpdates = ({
+  topic,
+  channel = null,
+  connected = false,
+  load,
+  onPush,
+  pollIntervalMs,
+  maxPollIntervalMs = pollIntervalMs * 8,
+}: UseLiveUpdatesProps) => {
+  const [pushing, setPushing] = useState(false);
+
+  // Read inside listeners and timers without restarting them
+  const loadRef = useRef(load);
+  loadRef.current = load;
+  const onPushRef = useRef(onPush);
+  onPushRef.current = onPush;
+
+  useEffect(() => {
+    setPushing(false);
+    if (!channel || !connected) return;
+
+    // Polling only stops once the server confirms it will push this topic
+    let confirmed = false;
+    const unsubscribe = channel.subscribe((message) => {
+      if (message.type === 'subscribed' && !confirmed && message.payload.topics.includes(topic)) {
+        confirmed = true;
+        setPushing(true);
+        // Catch up on anything missed before the subscription began
+        loadRef.current().catch(() => {});
+      }
+      onPushRef.current(message);
+    });
+    channel.send({ type: 'subscribe', payload: { topics: [topic] } });
+
+    return () => {
+      unsubscribe();
+      if (confirmed) channel.send({ type: 'unsubscribe', payload: { topics: [topic] } });
+    };
+  }, [channel, connected, topic]);
+
+  useEffect(() => {
+    if (pushing) return;
+    const poller = createPoller({
+      poll: () => loadRef.current(),
+      intervalMs: pollIntervalMs,
+      maxIntervalMs: maxPollIntervalMs,
+    });
+    poller.start();
+    return poller.stop;
+  }, [pushing, pollIntervalMs, maxPollIntervalMs]);
+
+  return { pushing };
+};
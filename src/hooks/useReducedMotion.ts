@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// Browsers without matchMedia (and jsdom) get full motion
+const queryReducedMotion = () =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+    ? window.matchMedia(REDUCED_MOTION_QUERY)
+    : null;
+
+// Whether the system asks for reduced motion, following changes while open
+export const useReducedMotion = (): boolean => {
+  const [reduced, setReduced] = useState(() => queryReducedMotion()?.matches ?? false);
+
+  useEffect(() => {
+    const query = queryReducedMotion();
+    if (!query) return;
+    const handleChange = (e: MediaQueryListEvent) => setReduced(e.matches);
+    setReduced(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => {
+      query.removeEventListener('change', handleChange);
+    };
+  }, []);
+
+  return reduced;
+};
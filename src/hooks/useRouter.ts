@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Route, formatRoute, parseRoute } from '../utils/router';
+
+// Marks history entries pushed by the app, so closing a page can go back
+// instead of stacking another entry on top
+const HISTORY_MARKER = 'connect4Route';
+
+interface NavigateOptions {
+  // Swap the current entry, e.g. for redirects
+  replace?: boolean;
+}
+
+export const useRouter = () => {
+  const [hash, setHash] = useState(() => window.location.hash);
+
+  // Back/forward, typed URLs and share links opened in this tab
+  useEffect(() => {
+    const sync = () => setHash(window.location.hash);
+    window.addEventListener('popstate', sync);
+    window.addEventListener('hashchange', sync);
+    return () => {
+      window.removeEventListener('popstate', sync);
+      window.removeEventListener('hashchange', sync);
+    };
+  }, []);
+
+  const route = useMemo(() => parseRoute(hash), [hash]);
+
+  const navigate = useCallback((to: Route, { replace = false }: NavigateOptions = {}) => {
+    const next = formatRoute(to);
+    if (next === window.location.hash) return;
+    const url = `${window.location.pathname}${window.location.search}${next}`;
+    if (replace) {
+      window.history.replaceState(window.history.state, '', url);
+    } else {
+      window.history.pushState({ [HISTORY_MARKER]: true }, '', url);
+    }
+    setHash(next);
+  }, []);
+
+  // Return to the previous screen, or to `fallback` when this one was opened directly
+  const back = useCallback((fallback: Route) => {
+    if (window.history.state?.[HISTORY_MARKER]) {
+      window.history.back();
+    } else {
+      navigate(fallback, { replace: true });
+    }
+  }, [navigate]);
+
+  return { route, navigate, back };
+};
+
+export type Router = ReturnType<typeof useRouter>;
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AuthSession } from '../types';
+import { ApiAuthError, clearApiCache } from '../utils/api';
+import { logout, refreshDelay, refreshSession } from '../utils/auth';
+import { SESSION_END_MESSAGES, SessionEndReason, getSession, getSessionEndedOnLoad, onSessionChange } from '../utils/session';
+
+// Wait before retrying a refresh that failed for reasons other than the token
+const REFRESH_RETRY_MS = 30 * 1000;
+
+const endMessage = (reason?: SessionEndReason | null) =>
+  reason && reason !== 'logout' ? SESSION_END_MESSAGES[reason] : '';
+
+export const useSession = () => {
+  const [session, setSession] = useState<AuthSession | null>(getSession);
+  // Why the last session ended, when it was not the player's choice
+  const [notice, setNotice] = useState(() => endMessage(getSessionEndedOnLoad()));
+  const [refreshFailures, setRefreshFailures] = useState(0);
+  // Bumped to wait another step towards a far-off expiry
+  const [waits, setWaits] = useState(0);
+
+  useEffect(() => onSessionChange((next, reason) => {
+    setSession(next);
+    setRefreshFailures(0);
+    if (next) {
+      setNotice('');
+      return;
+    }
+    // Cached responses may be personal to the player who just left
+    clearApiCache();
+    setNotice(endMessage(reason));
+  }), []);
+
+  // 🔄 Refresh the token shortly before it runs out
+  useEffect(() => {
+    if (!session) return;
+    const delay = refreshFailures > 0 ? REFRESH_RETRY_MS : refreshDelay(session, Date.now());
+    if (delay === null) return;
+    const timer = setTimeout(() => {
+      if (refreshFailures === 0 && (refreshDelay(session, Date.now()) ?? 0) > 0) {
+        setWaits(count => count + 1);
+        return;
+      }
+      refreshSession().catch((error) => {
+        // A refused refresh has already ended the session
+        if (!(error instanceof ApiAuthError)) setRefreshFailures(count => count + 1);
+      });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [session, refreshFailures, waits]);
+
+  const signOut = useCallback(() => {
+    logout();
+  }, []);
+
+  const dismissNotice = useCallback(() => setNotice(''), []);
+
+  return { session, notice, signOut, dismissNotice };
+};
+
+export type SessionControls = ReturnType<typeof useSession>;
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { checkUsername, isAbortError } from '../utils/api';
+import { debounce } from '../utils/debounce';
+import { UsernameStatus, isReservedUsername, suggestUsernames, validateUsername } from '../utils/usernames';
+
+// Wait for a pause in typing before asking the server
+const CHECK_DELAY_MS = 400;
+
+interface AvailabilityResult {
+  username: string;
+  status: UsernameStatus;
+  suggestions: string[];
+}
+
+const IDLE: Omit<AvailabilityResult, 'username'> = { status: 'idle', suggestions: [] };
+
+// As-you-type availability of `username`; off for logins, where the name must already exist
+export const useUsernameAvailability = (username: string, enabled: boolean) => {
+  const [result, setResult] = useState<AvailabilityResult>({ username, ...IDLE });
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // The name still being asked about; answers for older names are dropped
+  const pendingRef = useRef<string | null>(null);
+
+  const check = useCallback(async (name: string) => {
+    if (pendingRef.current !== name) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    try {
+      const { available, reserved, suggestions } = await checkUsername(name, { signal: controller.signal });
+      if (pendingRef.current !== name) return;
+      setResult({ username: name, status: available ? 'available' : reserved ? 'reserved' : 'taken', suggestions });
+    } catch (error) {
+      if (isAbortError(error) || pendingRef.current !== name) return;
+      setResult({ username: name, status: 'unknown', suggestions: [] });
+    }
+  }, []);
+
+  const checkLater = useMemo(() => debounce(check, CHECK_DELAY_MS), [check]);
+
+  useEffect(() => {
+    controllerRef.current?.abort();
+    pendingRef.current = null;
+    if (!enabled || validateUsername(username)) {
+      setResult({ username, ...IDLE });
+      return;
+    }
+    if (isReservedUsername(username)) {
+      setResult({ username, status: 'reserved', suggestions: suggestUsernames(username) });
+      return;
+    }
+    pendingRef.current = username;
+    setResult({ username, status: 'checking', suggestions: [] });
+    checkLater(username);
+  }, [username, enabled, checkLater]);
+
+  useEffect(() => () => {
+    pendingRef.current = null;
+    controllerRef.current?.abort();
+  }, []);
+
+  // Someone claimed the name after it was checked
+  const markTaken = useCallback(() => {
+    pendingRef.current = null;
+    controllerRef.current?.abort();
+    setResult({ username, status: 'taken', suggestions: suggestUsernames(username) });
+  }, [username]);
+
+  const current = result.username === username ? result : IDLE;
+  return { status: current.status, suggestions: current.suggestions, markTaken };
+};
+
+export type UsernameAvailabilityState = ReturnType<typeof useUsernameAvailability>;
@@ -1,12 +1,71 @@
 // types.ts
+export type GameStatus = 'waiting' | 'in_progress' | 'completed' | 'draw';
+
+// 'local' (hot-seat) and 'ai' (built-in engine) games never reach the server
+export type GameMode = 'friend' | 'computer' | 'local' | 'ai';
+
+export type OfflineGameMode = Extract<GameMode, 'local' | 'ai'>;
+
+export type OnlineGameMode = Exclude<GameMode, OfflineGameMode>;
+
+export type AiDifficulty = 'easy' | 'medium' | 'hard' | 'perfect';
+
+// How fast dropped discs fall; 'off' places them instantly
+export type AnimationSpeed = 'off' | 'fast' | 'normal' | 'slow';
+
+// Optional game clock: a fixed budget per move, or a total per player
+// topped up by an increment after each move
+export type TimeControl =
+  | { type: 'perMove'; seconds: number }
+  | { type: 'total'; minutes: number; incrementSeconds: number };
+
+// Clock snapshot sent with each gameState
+export interface GameClock {
+  timeControl: TimeControl;
+  // Milliseconds left for player 1 and player 2 at serverTime. Only the
+  // player to move is counting down.
+  remainingMs: [number, number];
+  serverTime: number;
+}
+
+// Quick reactions that can be sent over chat
+export type EmoteId = 'thumbsUp' | 'laugh' | 'wow' | 'think' | 'fire' | 'gg';
+
+// Live game to watch: by id when the server listed one, else by a player in it
+export interface SpectateTarget {
+  gameId?: string;
+  player: string;
+}
+
+// Private 'friend' game: open a new room, or join one by its invite code.
+// opponent is set when the room was reserved by an accepted challenge.
+export type RoomRequest = { action: 'create' } | { action: 'join'; code: string; opponent?: string };
+
+// Player listed by /active-users
+export interface ActiveUser {
+  username: string;
+  status: 'waiting' | 'in_game';
+  gameId?: string;
+}
+
+// Direct challenge between two lobby players; expiresAt is local epoch ms
+export interface Challenge {
+  id: string;
+  from: string;
+  to: string;
+  expiresAt: number;
+  timeControl?: TimeControl;
+}
+
 export interface GameState {
   board: number[][];
   currentTurn: number;
-  status: 'waiting' | 'in_progress' | 'completed' | 'draw';
+  status: GameStatus;
   winner?: Player;
   player1?: Player;
   player2?: Player;
   lastMove?: Move;
+  clock?: GameClock;
 }
 
 export interface Player {
@@ -28,8 +87,70 @@ export interface PlayerStats {
   winPercentage: number;
 }
 
-export interface WebSocketMessage {
-  type: 'join' | 'move' | 'gameState' | 'gameStart' | 'error';
-  gameId?: string;
-  payload: any;
-}
\ No newline at end of file
+export type GameOutcome = 'win' | 'loss' | 'draw';
+
+export interface RecordSplit {
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+// A finished game from one player's point of view
+export interface RecentGame {
+  gameId: string;
+  opponent: string;
+  opponentIsBot: boolean;
+  outcome: GameOutcome;
+  endedAt: number | null;
+}
+
+// Streaks and splits are left out by servers that do not track them
+export interface PlayerProfile extends PlayerStats {
+  currentStreak?: number;
+  bestStreak?: number;
+  vsBots?: RecordSplit;
+  vsHumans?: RecordSplit;
+}
+
+// Why a game ended, when the server says
+export type GameEndReason = 'connectFour' | 'draw' | 'timeout';
+
+export interface GameResult {
+  winner: string | null;
+  isDraw: boolean;
+  botWon: boolean;
+  reason?: GameEndReason;
+}
+
+// A finished (or in-progress) game as an ordered move list, enough to replay it
+export interface GameRecord {
+  player1?: Player;
+  player2?: Player;
+  moves: Move[];
+  rows: number;
+  columns: number;
+  result?: GameResult;
+  // Set when moves played before we joined are missing, e.g. a game joined
+  // mid-way; such records can't be replayed or exported
+  incomplete?: boolean;
+}
+
+export interface BoardPosition {
+  row: number;
+  column: number;
+}
+
+export interface WinningLine {
+  player: number;
+  cells: BoardPosition[];
+}
+
+// Signed-in player. Guests get a session too, under a name nobody has
+// registered; servers without accounts issue no token at all.
+export interface AuthSession {
+  username: string;
+  guest: boolean;
+  token: string | null;
+  // Local epoch ms; null when the token never expires
+  expiresAt: number | null;
+}
@@ -0,0 +1,79 @@
+import { chooseMove } from './aiEngine';
+import { getLegalMoves } from './gameRules';
+
+// Build a board from rows of characters: '.' empty, 'x' player 1, 'o' player 2
+const parseBoard = (rows: string[]) =>
+  rows.map(row => row.split('').map(c => (c === 'x' ? 1 : c === 'o' ? 2 : 0)));
+
+const neverRandom = () => 0.99;
+
+describe('chooseMove', () => {
+  test('takes an immediate win', () => {
+    const board = parseBoard([
+      '.......',
+      '.......',
+      '.......',
+      '.......',
+      'ooo....',
+      'xxx....',
+    ]);
+    expect(chooseMove(board, 1, 'medium', neverRandom)).toBe(3);
+    expect(chooseMove(board, 2, 'medium', neverRandom)).toBe(3);
+  });
+
+  test("blocks the opponent's immediate win", () => {
+    const board = parseBoard([
+      '.......',
+      '.......',
+      '.......',
+      'x......',
+      'x...o..',
+      'x...o..',
+    ]);
+    expect(chooseMove(board, 2, 'hard', neverRandom)).toBe(0);
+  });
+
+  test('avoids a move that lets the opponent win on top of it', () => {
+    // Playing column 3 for 'o' would let 'x' complete row 4 above it
+    const board = parseBoard([
+      '.......',
+      '.......',
+      '.......',
+      '.......',
+      'xxx....',
+      'oox..oo',
+    ]);
+    expect(chooseMove(board, 2, 'hard', neverRandom)).not.toBe(3);
+  });
+
+  test('finds a forced win two moves ahead', () => {
+    // 'x' to play: column 2 creates two threats on the bottom row
+    const board = parseBoard([
+      '.......',
+      '.......',
+      '.......',
+      '.......',
+      '...o...',
+      '...xx.o',
+    ]);
+    expect(chooseMove(board, 1, 'hard', neverRandom)).toBe(2);
+  });
+
+  test('returns a legal move or -1 for a full board', () => {
+    const board = parseBoard([
+      'x.oxxox',
+      'o.xooxo',
+      'x.oxxox',
+      'o.xooxo',
+      'xxoxxox',
+      'ooxooxo',
+    ]);
+    expect(getLegalMoves(board)).toContain(chooseMove(board, 1, 'perfect', neverRandom));
+
+    board[0][1] = 1;
+    board[1][1] = 2;
+    board[2][1] = 1;
+    board[3][1] = 2;
+    expect(chooseMove(board, 1, 'easy', neverRandom)).toBe(-1);
+  });
+});
@@ -0,0 +1,289 @@
+// Connect 4 search engine: negamax with alpha-beta pruning, a Zobrist-keyed
+// transposition table and iterative deepening. Pure and synchronous; the UI
+// runs it inside a Web Worker (see workers/aiWorker.ts).
+import { AiDifficulty } from '../types';
+import { CONNECT_LENGTH } from './gameRules';
+
+interface SearchConfig {
+  depth: number;
+  // Chance of playing a random legal move instead of the best one
+  randomness: number;
+  timeLimitMs: number;
+}
+
+export const AI_DIFFICULTIES: AiDifficulty[] = ['easy', 'medium', 'hard', 'perfect'];
+
+export const AI_DIFFICULTY_LABELS: Record<AiDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+  perfect: 'Perfect',
+};
+
+export const DIFFICULTY_CONFIG: Record<AiDifficulty, SearchConfig> = {
+  easy: { depth: 2, randomness: 0.35, timeLimitMs: 1000 },
+  medium: { depth: 4, randomness: 0.1, timeLimitMs: 1500 },
+  hard: { depth: 8, randomness: 0, timeLimitMs: 3000 },
+  // Searches to the end of the game when the time budget allows
+  perfect: { depth: 42, randomness: 0, timeLimitMs: 6000 },
+};
+
+const WIN_SCORE = 1000000;
+const TABLE_LIMIT = 1 << 20;
+
+type Bound = 'exact' | 'lower' | 'upper';
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+  move: number;
+}
+
+class SearchTimeout extends Error {
+  constructor() {
+    super('Search time limit reached');
+    this.name = 'SearchTimeout';
+  }
+}
+
+// Deterministic PRNG so Zobrist keys are stable between runs
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return (t ^ (t >>> 14)) >>> 0;
+};
+
+const createZobrist = (size: number) => {
+  const next = mulberry32(0xc0ffee);
+  const table = (): number[][] =>
+    Array.from({ length: size }, () => [0, next() | 0, next() | 0]);
+  return { high: table(), low: table() };
+};
+
+// All runs of CONNECT_LENGTH cells, as flat indices, used by the evaluator
+const buildWindows = (rows: number, cols: number): number[][] => {
+  const windows: number[][] = [];
+  const directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      for (const [dr, dc] of directions) {
+        const endR = r + dr * (CONNECT_LENGTH - 1);
+        const endC = c + dc * (CONNECT_LENGTH - 1);
+        if (endR < 0 || endR >= rows || endC < 0 || endC >= cols) continue;
+        const window: number[] = [];
+        for (let i = 0; i < CONNECT_LENGTH; i++) {
+          window.push((r + dr * i) * cols + (c + dc * i));
+        }
+        windows.push(window);
+      }
+    }
+  }
+  return windows;
+};
+
+export const chooseMove = (
+  board: number[][],
+  player: number,
+  difficulty: AiDifficulty,
+  random: () => number = Math.random
+): number => {
+  const rows = board.length;
+  const cols = rows > 0 ? board[0].length : 0;
+  const config = DIFFICULTY_CONFIG[difficulty];
+
+  const cells = new Int8Array(rows * cols);
+  const heights = new Array(cols).fill(0);
+  let moveCount = 0;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      cells[r * cols + c] = board[r][c];
+      if (board[r][c] !== 0) {
+        heights[c]++;
+        moveCount++;
+      }
+    }
+  }
+
+  const legal: number[] = [];
+  for (let c = 0; c < cols; c++) {
+    if (heights[c] < rows) legal.push(c);
+  }
+  if (legal.length === 0) return -1;
+  if (legal.length === 1) return legal[0];
+
+  // Centre-out ordering finds cut-offs much sooner
+  const order = Array.from({ length: cols }, (_, c) => c)
+    .sort((a, b) => Math.abs(a - (cols - 1) / 2) - Math.abs(b - (cols - 1) / 2));
+
+  const zobrist = createZobrist(rows * cols);
+  let hashHigh = 0;
+  let hashLow = 0;
+  for (let i = 0; i < cells.length; i++) {
+    if (cells[i] !== 0) {
+      hashHigh ^= zobrist.high[i][cells[i]];
+      hashLow ^= zobrist.low[i][cells[i]];
+    }
+  }
+  // 53-bit key from the two 32-bit hashes keeps collisions negligible
+  const tableKey = () => (hashHigh >>> 0) * 2097152 + (hashLow & 0x1fffff);
+  const table = new Map<number, TableEntry>();
+
+  const windows = buildWindows(rows, cols);
+  const deadline = Date.now() + config.timeLimitMs;
+  let nodes = 0;
+
+  const play = (col: number, who: number) => {
+    const index = (rows - 1 - heights[col]) * cols + col;
+    cells[index] = who;
+    heights[col]++;
+    moveCount++;
+    hashHigh ^= zobrist.high[index][who];
+    hashLow ^= zobrist.low[index][who];
+  };
+
+  const undo = (col: number) => {
+    heights[col]--;
+    moveCount--;
+    const index = (rows - 1 - heights[col]) * cols + col;
+    const who = cells[index];
+    cells[index] = 0;
+    hashHigh ^= zobrist.high[index][who];
+    hashLow ^= zobrist.low[index][who];
+  };
+
+  // Would dropping in col connect four for who? Checked before playing.
+  const isWinningDrop = (col: number, who: number): boolean => {
+    const row = rows - 1 - heights[col];
+    const directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
+    for (const [dr, dc] of directions) {
+      let count = 1;
+      for (const sign of [1, -1]) {
+        let r = row + dr * sign;
+        let c = col + dc * sign;
+        while (r >= 0 && r < rows && c >= 0 && c < cols && cells[r * cols + c] === who) {
+          count++;
+          r += dr * sign;
+          c += dc * sign;
+        }
+      }
+      if (count >= CONNECT_LENGTH) return true;
+    }
+    return false;
+  };
+
+  const evaluate = (who: number): number => {
+    let score = 0;
+    for (const window of windows) {
+      let mine = 0;
+      let theirs = 0;
+      for (const index of window) {
+        if (cells[index] === who) mine++;
+        else if (cells[index] !== 0) theirs++;
+      }
+      if (mine > 0 && theirs > 0) continue;
+      if (mine === 3) score += 50;
+      else if (mine === 2) score += 10;
+      else if (theirs === 3) score -= 50;
+      else if (theirs === 2) score -= 10;
+    }
+    const centre = Math.floor(cols / 2);
+    for (let r = 0; r < rows; r++) {
+      const value = cells[r * cols + centre];
+      if (value === who) score += 3;
+      else if (value !== 0) score -= 3;
+    }
+    return score;
+  };
+
+  const negamax = (depth: number, alpha: number, beta: number, who: number, ply: number): number => {
+    if (++nodes % 4096 === 0 && Date.now() > deadline) {
+      throw new SearchTimeout();
+    }
+    if (moveCount === rows * cols) return 0;
+
+    for (const col of order) {
+      if (heights[col] < rows && isWinningDrop(col, who)) {
+        return WIN_SCORE - ply;
+      }
+    }
+    if (depth === 0) return evaluate(who);
+
+    const originalAlpha = alpha;
+    const key = tableKey();
+    const entry = table.get(key);
+    if (entry && entry.depth >= depth) {
+      if (entry.bound === 'exact') return entry.score;
+      if (entry.bound === 'lower') alpha = Math.max(alpha, entry.score);
+      else beta = Math.min(beta, entry.score);
+      if (alpha >= beta) return entry.score;
+    }
+
+    const moves = entry ? [entry.move, ...order.filter(c => c !== entry.move)] : order;
+    const opponent = who === 1 ? 2 : 1;
+    let best = -Infinity;
+    let bestMove = -1;
+
+    for (const col of moves) {
+      if (heights[col] >= rows) continue;
+      play(col, who);
+      const score = -negamax(depth - 1, -beta, -alpha, opponent, ply + 1);
+      undo(col);
+      if (score > best) {
+        best = score;
+        bestMove = col;
+      }
+      alpha = Math.max(alpha, score);
+      if (alpha >= beta) break;
+    }
+
+    if (table.size >= TABLE_LIMIT) table.clear();
+    table.set(key, {
+      depth,
+      score: best,
+      bound: best <= originalAlpha ? 'upper' : best >= beta ? 'lower' : 'exact',
+      move: bestMove,
+    });
+    return best;
+  };
+
+  if (random() < config.randomness) {
+    return legal[Math.floor(random() * legal.length)];
+  }
+
+  const opponent = player === 1 ? 2 : 1;
+  const remaining = rows * cols - moveCount;
+  let bestMove = order.find(c => heights[c] < rows) as number;
+
+  for (let depth = 1; depth <= Math.min(config.depth, remaining); depth++) {
+    let iterationBest = -1;
+    let iterationScore = -Infinity;
+    // Search the previous iteration's best move first
+    const previousBest = bestMove;
+    const rootOrder = [previousBest, ...order.filter(c => c !== previousBest)];
+    try {
+      let alpha = -Infinity;
+      for (const col of rootOrder) {
+        if (heights[col] >= rows) continue;
+        if (isWinningDrop(col, player)) return col;
+        play(col, player);
+        const score = -negamax(depth - 1, -Infinity, -alpha, opponent, 1);
+        undo(col);
+        if (score > iterationScore) {
+          iterationScore = score;
+          iterationBest = col;
+        }
+        alpha = Math.max(alpha, score);
+      }
+    } catch (error) {
+      if (error instanceof SearchTimeout) break;
+      throw error;
+    }
+    bestMove = iterationBest;
+    // A forced result is known; deeper search cannot change it
+    if (Math.abs(iterationScore) >= WIN_SCORE - rows * cols) break;
+  }
+
+  return bestMove;
+};
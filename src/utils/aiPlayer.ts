@@ -0,0 +1,71 @@
+// Main-thread client for the AI worker. Falls back to searching inline (on a
+// timer) where Web Workers are unavailable, e.g. under jsdom.
+import { AiDifficulty } from '../types';
+import type { AiMoveResponse } from '../workers/aiWorker';
+
+export class AiWorkerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiWorkerError';
+  }
+}
+
+interface PendingMove {
+  resolve: (column: number) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingMove>();
+
+// Drop the worker and fail every request still waiting on it; the next
+// request starts a fresh worker
+const discardWorker = (error: Error) => {
+  worker?.terminate();
+  worker = null;
+  const waiting = Array.from(pending.values());
+  pending.clear();
+  waiting.forEach(({ reject }) => reject(error));
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/aiWorker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<AiMoveResponse>) => {
+      const request = pending.get(event.data.id);
+      pending.delete(event.data.id);
+      request?.resolve(event.data.column);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      discardWorker(new AiWorkerError(event.message || 'The AI worker crashed'));
+    };
+    worker.onmessageerror = () => {
+      discardWorker(new AiWorkerError('The AI worker sent an unreadable reply'));
+    };
+  }
+  return worker;
+};
+
+// Stop the worker once no AI game is running; pending requests are rejected
+export const releaseAiWorker = (): void => {
+  discardWorker(new AiWorkerError('The AI game ended'));
+};
+
+export const requestAiMove = (
+  board: number[][],
+  player: number,
+  difficulty: AiDifficulty
+): Promise<number> => {
+  if (typeof Worker === 'undefined') {
+    return import('./aiEngine').then(({ chooseMove }) =>
+      new Promise(resolve => setTimeout(() => resolve(chooseMove(board, player, difficulty)), 0))
+    );
+  }
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, board, player, difficulty });
+  });
+};
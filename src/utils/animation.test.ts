@@ -0,0 +1,35 @@
+import { dropDurationMs, effectiveAnimationSpeed, findOpponentMove } from './animation';
+
+describe('drop animation timing', () => {
+  test('scales with the speed preference', () => {
+    expect(dropDurationMs(6, 'normal')).toBe(480);
+    expect(dropDurationMs(6, 'fast')).toBe(240);
+    expect(dropDurationMs(6, 'slow')).toBe(840);
+    expect(dropDurationMs(6, 'off')).toBe(0);
+  });
+
+  test('short drops are quicker, but not in proportion to the distance', () => {
+    const oneRow = dropDurationMs(1, 'normal');
+    expect(oneRow).toBeLessThan(dropDurationMs(6, 'normal'));
+    expect(oneRow).toBeGreaterThan(480 / 6);
+    expect(dropDurationMs(0, 'normal')).toBe(0);
+  });
+
+  test('reduced motion switches animations off', () => {
+    expect(effectiveAnimationSpeed('slow', true)).toBe('off');
+    expect(effectiveAnimationSpeed('slow', false)).toBe('slow');
+  });
+});
+
+describe('opponent move', () => {
+  test('finds the latest disc played by the other side', () => {
+    const moves = [
+      { row: 5, column: 3, player: 1 },
+      { row: 5, column: 2, player: 2 },
+      { row: 4, column: 3, player: 1 },
+    ];
+    expect(findOpponentMove(moves, 1)).toEqual({ row: 5, column: 2, player: 2 });
+    expect(findOpponentMove(moves, 2)).toEqual({ row: 4, column: 3, player: 1 });
+    expect(findOpponentMove(moves.slice(0, 1), 1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,42 @@
+// Board animation timing: how long a dropped disc takes to fall, scaled by
+// the player's speed preference and switched off for reduced motion
+import { AnimationSpeed, Move } from '../types';
+
+export const ANIMATION_SPEEDS: AnimationSpeed[] = ['off', 'fast', 'normal', 'slow'];
+
+export const ANIMATION_SPEED_LABELS: Record<AnimationSpeed, string> = {
+  off: 'Off',
+  fast: 'Fast',
+  normal: 'Normal',
+  slow: 'Slow',
+};
+
+const SPEED_FACTORS: Record<AnimationSpeed, number> = {
+  off: 0,
+  fast: 0.5,
+  normal: 1,
+  slow: 1.75,
+};
+
+// Time for a disc to fall the full height of a standard six-row board
+const FULL_DROP_MS = 480;
+const FULL_DROP_ROWS = 6;
+
+// The system's reduced-motion setting wins over any in-app speed
+export const effectiveAnimationSpeed = (speed: AnimationSpeed, reducedMotion: boolean): AnimationSpeed =>
+  reducedMotion ? 'off' : speed;
+
+// Fall time for a disc dropping `rows` cells. Falling objects cover distance
+// with the square of time, so short drops are quicker but not proportionally.
+export const dropDurationMs = (rows: number, speed: AnimationSpeed): number => {
+  if (rows <= 0) return 0;
+  return Math.round(FULL_DROP_MS * SPEED_FACTORS[speed] * Math.sqrt(rows / FULL_DROP_ROWS));
+};
+
+// The most recent disc played by someone other than `player`
+export const findOpponentMove = (moves: Move[], player: number): Move | undefined => {
+  for (let i = moves.length - 1; i >= 0; i--) {
+    if (moves[i].player !== player) return moves[i];
+  }
+  return undefined;
+};
@@ -0,0 +1,36 @@
+import { announceGameState } from './announcements';
+import { GameState } from '../types';
+
+const state = (patch: Partial<GameState> = {}): GameState => ({
+  board: [[0, 0, 0, 0]],
+  currentTurn: 1,
+  status: 'in_progress',
+  player1: { id: '1', username: 'amy' },
+  player2: { id: '2', username: 'bob' },
+  ...patch,
+});
+
+describe('game announcements', () => {
+  const asAmy = { viewer: 'amy', namePlayers: false };
+
+  test('announces the move and the next turn from the viewer side', () => {
+    const before = state();
+    const after = state({ currentTurn: 2, lastMove: { row: 0, column: 3, player: 1 } });
+    expect(announceGameState(before, after, asAmy)).toBe('You dropped a disc in column 4. bob\'s turn.');
+    expect(announceGameState(before, after, { viewer: 'amy', namePlayers: true }))
+      .toBe('amy dropped a disc in column 4. bob\'s turn.');
+  });
+
+  test('announces the result', () => {
+    const before = state({ currentTurn: 2 });
+    const won = state({ status: 'completed', winner: { id: '2', username: 'bob' }, lastMove: { row: 0, column: 0, player: 2 } });
+    expect(announceGameState(before, won, asAmy)).toBe('bob dropped a disc in column 1. bob wins.');
+    expect(announceGameState(before, state({ status: 'draw' }), asAmy)).toBe('The game ended in a draw.');
+  });
+
+  test('stays quiet when nothing changed or the game has not started', () => {
+    const current = state({ lastMove: { row: 0, column: 1, player: 2 } });
+    expect(announceGameState(current, { ...current }, asAmy)).toBe('');
+    expect(announceGameState(null, state({ status: 'waiting' }), asAmy)).toBe('');
+  });
+});
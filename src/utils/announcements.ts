@@ -0,0 +1,49 @@
+// What screen readers hear as a game goes on: each move, whose turn it is
+// and the result, worded for the player at this screen
+import { GameState, Move } from '../types';
+
+export interface AnnouncementContext {
+  viewer: string;
+  // Name both players rather than "you", for shared devices and spectators
+  namePlayers: boolean;
+}
+
+const sameMove = (a?: Move, b?: Move) =>
+  a?.row === b?.row && a?.column === b?.column && a?.player === b?.player;
+
+const playerName = (state: GameState, player: number) =>
+  (player === 1 ? state.player1 : state.player2)?.username ?? `Player ${player}`;
+
+// Announcement for the step from `previous` to `next`, or '' when nothing
+// worth saying changed
+export const announceGameState = (
+  previous: GameState | null,
+  next: GameState,
+  { viewer, namePlayers }: AnnouncementContext
+): string => {
+  if (next.status === 'waiting') return '';
+  const isViewer = (name: string) => !namePlayers && name === viewer;
+
+  const moved = next.lastMove && !sameMove(previous?.lastMove, next.lastMove);
+  const statusChanged = previous?.status !== next.status;
+  const turnChanged = previous?.currentTurn !== next.currentTurn;
+  if (!moved && !statusChanged && !turnChanged) return '';
+
+  const parts: string[] = [];
+  if (moved && next.lastMove) {
+    const mover = playerName(next, next.lastMove.player);
+    parts.push(`${isViewer(mover) ? 'You' : mover} dropped a disc in column ${next.lastMove.column + 1}.`);
+  }
+
+  if (next.status === 'in_progress') {
+    const current = playerName(next, next.currentTurn);
+    parts.push(isViewer(current) ? 'Your turn.' : `${current}'s turn.`);
+  } else if (next.status === 'completed') {
+    const winner = next.winner?.username;
+    if (!winner) parts.push('Game over.');
+    else parts.push(isViewer(winner) ? 'You won!' : `${winner} wins.`);
+  } else if (next.status === 'draw') {
+    parts.push('The game ended in a draw.');
+  }
+  return parts.join(' ');
+};
@@ -0,0 +1,86 @@
+import {
+  ApiError,
+  ApiResource,
+  ApiTimeoutError,
+  clearApiCache,
+  loadResource,
+  readCached,
+  request,
+  retryDelay,
+} from './api';
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: () => Promise.resolve(body),
+}) as Response;
+
+const originalFetch = global.fetch;
+
+describe('api client', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    clearApiCache();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('jitters retry delays around an exponential step', () => {
+    expect(retryDelay(0, () => 0)).toBe(150);
+    expect(retryDelay(0, () => 1)).toBe(450);
+    expect(retryDelay(2, () => 0.5)).toBe(1200);
+  });
+
+  test('retries a failed GET', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(null, 503))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+    await expect(request('GET', '/health', { retries: 1 })).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('does not retry client errors or writes', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(null, 500));
+    await expect(request('POST', '/things', { body: {} })).rejects.toMatchObject({ status: 500 });
+    fetchMock.mockResolvedValue(jsonResponse(null, 404));
+    await expect(request('GET', '/missing')).rejects.toBeInstanceOf(ApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('times out a hanging request', async () => {
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    await expect(request('GET', '/slow', { timeoutMs: 10, retries: 0 })).rejects.toBeInstanceOf(ApiTimeoutError);
+  });
+
+  test('shares one request between concurrent loads and caches the result', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([1, 2]));
+    const resource: ApiResource<unknown> = { key: '/numbers', fetch: options => request('GET', '/numbers', options) };
+    const [a, b] = await Promise.all([loadResource(resource), loadResource(resource)]);
+    expect(a).toEqual([1, 2]);
+    expect(b).toBe(a);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(readCached('/numbers')?.data).toEqual([1, 2]);
+  });
+
+  test('keeps a shared request alive while any caller still wants it', async () => {
+    let resolveFetch: (response: Response) => void = () => {};
+    fetchMock.mockReturnValue(new Promise(resolve => { resolveFetch = resolve; }));
+    const resource: ApiResource<unknown> = { key: '/shared', fetch: options => request('GET', '/shared', options) };
+    const controller = new AbortController();
+
+    const aborted = loadResource(resource, { signal: controller.signal });
+    const kept = loadResource(resource);
+    controller.abort();
+    resolveFetch(jsonResponse('done'));
+
+    await expect(aborted).rejects.toHaveProperty('name', 'AbortError');
+    await expect(kept).resolves.toBe('done');
+  });
+});
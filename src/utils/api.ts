@@ -0,0 +1,305 @@
+// REST client for the game server: typed endpoints over one fetch wrapper
+// with timeouts, retries for idempotent GETs, de-duplication of concurrent
+// requests and a small stale-while-revalidate cache. Requests carry the
+// session token, and a 401 to a request that sent one ends the session.
+import { ActiveUser, PlayerProfile, RecentGame, RecordSplit } from '../types';
+import { LeaderboardData, LeaderboardQuery, buildLeaderboardQuery, decodeLeaderboard } from './leaderboard';
+import { EMPTY_RECORD, decodePlayerProfile, decodeRecentGames, decodeRecord } from './profile';
+import { decodeActiveUser } from './protocol';
+import { authHeaders, rejectSession } from './session';
+import { UsernameAvailability, decodeAvailability } from './usernames';
+
+export class ApiError extends Error {
+  // HTTP status, or null when no response arrived
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// 401: the credentials or session token were refused
+export class ApiAuthError extends ApiError {
+  constructor(message = 'Not authorised') {
+    super(message, 401);
+    this.name = 'ApiAuthError';
+  }
+}
+
+export class ApiTimeoutError extends ApiError {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms`);
+    this.name = 'ApiTimeoutError';
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Per attempt
+  timeoutMs?: number;
+  // Extra attempts after a failure; GETs only
+  retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_MS = 300;
+const MAX_CACHE_ENTRIES = 50;
+
+export const getApiBase = (): string =>
+  (process.env.REACT_APP_API_URL || 'http://localhost:8080').replace(/\/$/, '');
+
+// Aborts surface as DOMExceptions, which are not always Error instances
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
+
+const abortError = () => new DOMException('Request aborted', 'AbortError');
+
+// Exponential backoff with jitter so clients that failed together retry apart
+export const retryDelay = (attempt: number, random: () => number = Math.random): number =>
+  RETRY_BASE_MS * 2 ** attempt * (0.5 + random());
+
+const isRetryable = (error: unknown): boolean =>
+  error instanceof ApiError && (error.status === null || error.status === 429 || error.status >= 500);
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// One attempt with its own timeout; aborting `signal` aborts it as well
+const fetchOnce = async (url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<unknown> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) throw new ApiTimeoutError(timeoutMs);
+      if (isAbortError(error)) throw error;
+      throw new ApiError(error instanceof Error ? error.message : 'Network error');
+    }
+    if (response.status === 401) {
+      throw new ApiAuthError();
+    }
+    if (!response.ok) {
+      throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
+    }
+    if (response.status === 204) return null;
+    try {
+      return await response.json();
+    } catch (error) {
+      if (timedOut) throw new ApiTimeoutError(timeoutMs);
+      if (isAbortError(error)) throw error;
+      throw new ApiError('Malformed response body', response.status);
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+export const request = async (
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  path: string,
+  {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    body,
+    headers,
+  }: RequestOptions & { body?: unknown; headers?: Record<string, string> } = {}
+): Promise<unknown> => {
+  const auth = authHeaders();
+  const init: RequestInit = body === undefined
+    ? { method, headers: { ...auth, ...headers } }
+    : { method, headers: { ...auth, ...headers, 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+  // Only idempotent reads are safe to repeat
+  const attempts = method === 'GET' ? retries + 1 : 1;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(`${getApiBase()}${path}`, init, timeoutMs, signal);
+    } catch (error) {
+      if (error instanceof ApiAuthError && auth.Authorization) rejectSession();
+      if (attempt + 1 >= attempts || !isRetryable(error)) throw error;
+      await wait(retryDelay(attempt), signal);
+    }
+  }
+};
+
+// 📦 Cached resources
+
+// A cacheable GET: the key identifies the response, fetch loads and decodes it
+export interface ApiResource<T> {
+  key: string;
+  fetch: (options: RequestOptions) => Promise<T>;
+}
+
+interface CacheEntry {
+  data: unknown;
+  fetchedAt: number;
+}
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  callers: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, InFlight>();
+
+export const readCached = <T>(key: string): { data: T; fetchedAt: number } | undefined =>
+  cache.get(key) as { data: T; fetchedAt: number } | undefined;
+
+// Least recently written entries are dropped first
+export const writeCached = (key: string, data: unknown): void => {
+  cache.delete(key);
+  cache.set(key, { data, fetchedAt: Date.now() });
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+};
+
+export const clearApiCache = (): void => cache.clear();
+
+// Concurrent loads of the same key share one request, which is only aborted
+// once every caller waiting on it has aborted
+export const loadResource = <T>(resource: ApiResource<T>, { signal, ...options }: RequestOptions = {}): Promise<T> => {
+  const { key } = resource;
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const entry: InFlight = {
+      controller,
+      callers: 0,
+      promise: resource.fetch({ ...options, signal: controller.signal })
+        .then((data) => {
+          writeCached(key, data);
+          return data;
+        })
+        .finally(() => {
+          if (inFlight.get(key) === entry) inFlight.delete(key);
+        }),
+    };
+    inFlight.set(key, entry);
+    shared = entry;
+  }
+
+  const entry = shared;
+  entry.callers += 1;
+  return new Promise<T>((resolve, reject) => {
+    let done = false;
+    const leave = () => {
+      done = true;
+      entry.callers -= 1;
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      if (done) return;
+      leave();
+      if (entry.callers === 0) {
+        entry.controller.abort();
+        if (inFlight.get(key) === entry) inFlight.delete(key);
+      }
+      reject(abortError());
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    entry.promise.then(
+      (data) => {
+        if (done) return;
+        leave();
+        resolve(data as T);
+      },
+      (error) => {
+        if (done) return;
+        leave();
+        reject(error);
+      }
+    );
+  });
+};
+
+// 🌐 Endpoints
+
+export const leaderboardResource = (query: LeaderboardQuery): ApiResource<LeaderboardData> => {
+  const key = `/leaderboard?${buildLeaderboardQuery(query)}`;
+  return {
+    key,
+    fetch: async (options) => decodeLeaderboard(await request('GET', key, options), query),
+  };
+};
+
+export const activeUsersResource: ApiResource<ActiveUser[]> = {
+  key: '/active-users',
+  fetch: async (options) => {
+    const data = await request('GET', '/active-users', options);
+    return (Array.isArray(data) ? data : [])
+      .map(decodeActiveUser)
+      .filter((user): user is ActiveUser => user !== undefined);
+  },
+};
+
+const playerPath = (username: string) => `/players/${encodeURIComponent(username)}`;
+
+export const playerProfileResource = (username: string): ApiResource<PlayerProfile> => {
+  const key = playerPath(username);
+  return {
+    key,
+    fetch: async (options) => decodePlayerProfile(await request('GET', key, options), username),
+  };
+};
+
+export const RECENT_GAMES_LIMIT = 20;
+
+// Newest first
+export const recentGamesResource = (username: string): ApiResource<RecentGame[]> => {
+  const key = `${playerPath(username)}/games?limit=${RECENT_GAMES_LIMIT}`;
+  return {
+    key,
+    fetch: async (options) => decodeRecentGames(await request('GET', key, options)),
+  };
+};
+
+// Results of `username` against `opponent`, from username's side
+export const headToHeadResource = (username: string, opponent: string): ApiResource<RecordSplit> => {
+  const key = `${playerPath(username)}/head-to-head?opponent=${encodeURIComponent(opponent)}`;
+  return {
+    key,
+    fetch: async (options) => decodeRecord(await request('GET', key, options)) ?? EMPTY_RECORD,
+  };
+};
+
+// Whether a name is free for a guest or a new account. Not cached: the
+// answer can change at any moment, and submitting is the final check.
+export const checkUsername = async (username: string, options: RequestOptions = {}): Promise<UsernameAvailability> => {
+  const path = `/usernames/${encodeURIComponent(username)}/availability`;
+  return decodeAvailability(await request('GET', path, { retries: 0, ...options }), username);
+};
@@ -0,0 +1,101 @@
+import { MAX_TIMER_DELAY_MS, decodeSession, logout, refreshDelay, startGuestSession } from './auth';
+import { ApiAuthError, request } from './api';
+import { getSession, onSessionChange, setSession, withAuthToken } from './session';
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: () => Promise.resolve(body),
+}) as Response;
+
+const originalFetch = global.fetch;
+
+describe('sessions', () => {
+  test('decodes server sessions and refuses ones without a token', () => {
+    expect(decodeSession({ token: 't', expiresAt: '2025-01-01T00:00:00Z' }, { username: 'amy', guest: false }))
+      .toEqual({ username: 'amy', guest: false, token: 't', expiresAt: Date.UTC(2025, 0, 1) });
+    expect(() => decodeSession({ username: 'amy' }, { username: 'amy', guest: true })).toThrow();
+  });
+
+  test('refreshes a minute before expiry, and never for untokened sessions', () => {
+    expect(refreshDelay({ username: 'a', guest: false, token: 't', expiresAt: 10 * 60 * 1000 }, 0)).toBe(9 * 60 * 1000);
+    expect(refreshDelay({ username: 'a', guest: false, token: 't', expiresAt: 1000 }, 0)).toBe(0);
+    expect(refreshDelay({ username: 'a', guest: true, token: null, expiresAt: null }, 0)).toBeNull();
+  });
+
+  test('waits for far-off expiries in steps setTimeout can hold', () => {
+    const sixtyDays = 60 * 24 * 60 * 60 * 1000;
+    const session = { username: 'a', guest: false, token: 't', expiresAt: sixtyDays };
+    expect(refreshDelay(session, 0)).toBe(MAX_TIMER_DELAY_MS);
+    expect(refreshDelay(session, MAX_TIMER_DELAY_MS * 2)).toBe(sixtyDays - MAX_TIMER_DELAY_MS * 2 - 60 * 1000);
+  });
+
+  test('adds the token to socket URLs', () => {
+    expect(withAuthToken('wss://host/ws', 'a b')).toBe('wss://host/ws?token=a%20b');
+    expect(withAuthToken('wss://host/ws?v=2', 't')).toBe('wss://host/ws?v=2&token=t');
+    expect(withAuthToken('wss://host/ws', null)).toBe('wss://host/ws');
+  });
+});
+
+describe('authenticated requests', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    fetchMock.mockResolvedValue(jsonResponse(null, 204));
+    await logout();
+  });
+
+  test('falls back to an untokened guest on servers without accounts', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(null, 404));
+    await expect(startGuestSession('amy')).resolves.toEqual({ username: 'amy', guest: true, token: null, expiresAt: null });
+  });
+
+  test('sends the token and ends the session when it is refused', async () => {
+    setSession({ username: 'amy', guest: false, token: 'secret', expiresAt: Date.now() + 60000 });
+    const reasons: Array<string | undefined> = [];
+    const off = onSessionChange((_session, reason) => reasons.push(reason));
+    fetchMock.mockResolvedValue(jsonResponse(null, 401));
+
+    await expect(request('GET', '/players/amy')).rejects.toBeInstanceOf(ApiAuthError);
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer secret' });
+    expect(getSession()).toBeNull();
+    expect(reasons).toEqual(['rejected']);
+    off();
+  });
+});
+
+describe('saved sessions', () => {
+  // Fresh session module, which reads the saved session once per page
+  const loadSessionModule = () => {
+    let module!: typeof import('./session');
+    jest.isolateModules(() => {
+      module = require('./session');
+    });
+    return module;
+  };
+
+  afterEach(() => {
+    sessionStorage.clear();
+  });
+
+  test('drops an expired session and says why', () => {
+    sessionStorage.setItem('connect4_session', JSON.stringify({ username: 'amy', guest: false, token: 't', expiresAt: Date.now() - 1000 }));
+    const session = loadSessionModule();
+    expect(session.getSession()).toBeNull();
+    expect(session.getSessionEndedOnLoad()).toBe('expired');
+    expect(sessionStorage.getItem('connect4_session')).toBeNull();
+  });
+
+  test('restores a live session quietly', () => {
+    sessionStorage.setItem('connect4_session', JSON.stringify({ username: 'amy', guest: false, token: 't', expiresAt: Date.now() + 60000 }));
+    const session = loadSessionModule();
+    expect(session.getSession()).toMatchObject({ username: 'amy', token: 't' });
+    expect(session.getSessionEndedOnLoad()).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+// Accounts: password login and registration, guest sessions and token
+// refresh. Sessions themselves live in utils/session.ts.
+import { AuthSession } from '../types';
+import { ApiAuthError, ApiError, clearApiCache, request } from './api';
+import { clearUserData } from './localStorage';
+import { endSession, getAuthToken, getSession, setSession } from './session';
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+export type AuthMode = 'guest' | 'login' | 'register';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Refresh this long before the token runs out
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+const decodeExpiry = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+  return null;
+};
+
+export const decodeSession = (value: unknown, fallback: { username: string; guest: boolean }): AuthSession => {
+  const raw = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  if (typeof raw.token !== 'string' || !raw.token) {
+    throw new ApiError('The server did not return a session');
+  }
+  return {
+    username: typeof raw.username === 'string' && raw.username ? raw.username : fallback.username,
+    guest: typeof raw.guest === 'boolean' ? raw.guest : fallback.guest,
+    token: raw.token,
+    expiresAt: decodeExpiry(raw.expiresAt),
+  };
+};
+
+// setTimeout fires at once for anything longer (about 24.8 days)
+export const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// How long to wait before checking on the session again, or null if it never
+// needs a refresh. Far-off expiries are waited out in capped steps.
+export const refreshDelay = (session: AuthSession, now: number): number | null =>
+  session.token && session.expiresAt !== null
+    ? Math.min(MAX_TIMER_DELAY_MS, Math.max(0, session.expiresAt - now - REFRESH_MARGIN_MS))
+    : null;
+
+export const login = async ({ username, password }: Credentials): Promise<AuthSession> => {
+  const data = await request('POST', '/auth/login', { body: { username, password } });
+  const session = decodeSession(data, { username, guest: false });
+  setSession(session);
+  return session;
+};
+
+export const register = async ({ username, password }: Credentials): Promise<AuthSession> => {
+  const data = await request('POST', '/auth/register', { body: { username, password } });
+  const session = decodeSession(data, { username, guest: false });
+  setSession(session);
+  return session;
+};
+
+// Servers without accounts have no /auth routes; guests then play untokened
+// as before
+export const startGuestSession = async (username: string): Promise<AuthSession> => {
+  let session: AuthSession;
+  try {
+    session = decodeSession(await request('POST', '/auth/guest', { body: { username } }), { username, guest: true });
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 404)) throw error;
+    session = { username, guest: true, token: null, expiresAt: null };
+  }
+  setSession(session);
+  return session;
+};
+
+// A refused refresh ends the session through the REST client
+export const refreshSession = async (): Promise<AuthSession | null> => {
+  const current = getSession();
+  if (!current?.token) return current;
+  const session = decodeSession(await request('POST', '/auth/refresh'), current);
+  setSession(session);
+  return session;
+};
+
+// Forget everything saved in this tab, then revoke the token if the server
+// is reachable. The session ends first so a refused revoke is not reported
+// as a rejected session.
+export const logout = async (): Promise<void> => {
+  const token = getAuthToken();
+  clearUserData();
+  clearApiCache();
+  endSession('logout');
+  if (!token) return;
+  try {
+    await request('POST', '/auth/logout', { timeoutMs: 3000, headers: { Authorization: `Bearer ${token}` } });
+  } catch (error) {
+    // signed out locally either way
+  }
+};
+
+export const authErrorMessage = (error: unknown, mode: AuthMode): string => {
+  if (error instanceof ApiAuthError) return 'Incorrect username or password.';
+  if (error instanceof ApiError && error.status === 409) {
+    return mode === 'register'
+      ? 'That username is already registered.'
+      : 'That name is already in use. Pick another, or log in if it is yours.';
+  }
+  if (error instanceof ApiError && error.status === 404 && mode !== 'guest') {
+    return "This server doesn't support accounts yet. Play as a guest instead.";
+  }
+  if (error instanceof ApiError && error.status === 400) return 'Check your username and password and try again.';
+  return "Couldn't reach the server. Please try again.";
+};
@@ -0,0 +1,27 @@
+import { MAX_CHAT_LENGTH, createRateLimiter, filterProfanity, prepareChatText } from './chat';
+
+describe('chat', () => {
+  test('masks blocked words, including stretched spellings', () => {
+    expect(filterProfanity('well SHIIIT that was close')).toBe('well S***** that was close');
+    expect(filterProfanity('what the fucking move')).toBe('what the f****** move');
+  });
+
+  test('leaves innocent words alone', () => {
+    expect(filterProfanity('Dickens wrote a classic, nice assist')).toBe('Dickens wrote a classic, nice assist');
+  });
+
+  test('trims, collapses whitespace and caps length', () => {
+    expect(prepareChatText('  good   game  ')).toBe('good game');
+    expect(prepareChatText('   ')).toBeNull();
+    expect(prepareChatText('x'.repeat(500))).toHaveLength(MAX_CHAT_LENGTH);
+  });
+
+  test('rate limits within a sliding window', () => {
+    const limiter = createRateLimiter(2, 1000);
+    expect(limiter.tryAcquire(0)).toBe(true);
+    expect(limiter.tryAcquire(100)).toBe(true);
+    expect(limiter.tryAcquire(200)).toBe(false);
+    expect(limiter.retryAfter(200)).toBe(800);
+    expect(limiter.tryAcquire(1000)).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+// In-game chat helpers: emote symbols, the profanity filter and rate limiting
+import { EmoteId } from '../types';
+
+export const MAX_CHAT_LENGTH = 200;
+
+export const EMOTE_SYMBOLS: Record<EmoteId, string> = {
+  thumbsUp: '👍',
+  laugh: '😂',
+  wow: '😮',
+  think: '🤔',
+  fire: '🔥',
+  gg: '🤝',
+};
+
+// Kept short on purpose; this is a courtesy filter, not moderation
+const BLOCKED_WORDS = ['fuck', 'shit', 'bitch', 'cunt', 'asshole', 'bastard', 'dick', 'piss', 'wanker'];
+
+// Stretched spellings ("shiiit") and common suffixes are caught too
+const BLOCKED_PATTERN = new RegExp(
+  `\\b(${BLOCKED_WORDS.map(word => word.split('').map(char => `${char}+`).join('')).join('|')})(?:s|es|ed|er|ers|ing|in|y)?\\b`,
+  'gi'
+);
+
+export const filterProfanity = (text: string): string =>
+  text.replace(BLOCKED_PATTERN, match => match.charAt(0) + '*'.repeat(match.length - 1));
+
+// Trimmed, length-capped message text, or null if there is nothing to send
+export const prepareChatText = (text: string): string | null => {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  return trimmed ? trimmed.slice(0, MAX_CHAT_LENGTH) : null;
+};
+
+export interface RateLimiter {
+  // Records an attempt at `now` if allowed; returns whether it was
+  tryAcquire: (now?: number) => boolean;
+  // Milliseconds until the next attempt would be allowed
+  retryAfter: (now?: number) => number;
+}
+
+// Sliding window: at most `limit` attempts in any `windowMs`
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  let stamps: number[] = [];
+  const prune = (now: number) => {
+    stamps = stamps.filter(stamp => now - stamp < windowMs);
+  };
+  return {
+    tryAcquire: (now = Date.now()) => {
+      prune(now);
+      if (stamps.length >= limit) return false;
+      stamps.push(now);
+      return true;
+    },
+    retryAfter: (now = Date.now()) => {
+      prune(now);
+      return stamps.length < limit ? 0 : windowMs - (now - stamps[0]);
+    },
+  };
+};
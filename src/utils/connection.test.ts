@@ -0,0 +1,147 @@
+import { ConnectionOptions, createGameConnection } from './connection';
+
+// Stand-in for the browser WebSocket; tests drive its lifecycle by hand
+class FakeSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static instances: FakeSocket[] = [];
+
+  readyState = FakeSocket.CONNECTING;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = FakeSocket.CLOSED;
+  }
+
+  accept() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  drop(code = 1006) {
+    this.readyState = FakeSocket.CLOSED;
+    this.onclose?.({ code, reason: '' });
+  }
+}
+
+const latestSocket = () => FakeSocket.instances[FakeSocket.instances.length - 1];
+
+const OPTIONS: ConnectionOptions = {
+  urls: ['ws://one', 'ws://two'],
+  maxRetries: 3,
+  initialRetryDelay: 1000,
+  maxRetryDelay: 3000,
+  heartbeatInterval: 1000,
+  heartbeatTimeout: 500,
+};
+
+describe('game connection', () => {
+  const realWebSocket = window.WebSocket;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeSocket.instances = [];
+    Object.defineProperty(window, 'WebSocket', { configurable: true, writable: true, value: FakeSocket });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    Object.defineProperty(window, 'WebSocket', { configurable: true, writable: true, value: realWebSocket });
+  });
+
+  test('reconnects to the next candidate after a close', () => {
+    const connection = createGameConnection(OPTIONS);
+    connection.connect();
+    latestSocket().accept();
+    expect(connection.getState()).toMatchObject({ status: 'open', url: 'ws://one', hasOpened: true });
+
+    latestSocket().drop();
+    expect(connection.getState()).toMatchObject({ status: 'reconnecting', attempt: 1 });
+    jest.advanceTimersByTime(1000);
+    expect(FakeSocket.instances).toHaveLength(2);
+    expect(latestSocket().url).toBe('ws://two');
+
+    latestSocket().accept();
+    expect(connection.getState()).toMatchObject({ status: 'open', attempt: 0 });
+  });
+
+  test('doubles the retry delay up to the cap', () => {
+    const connection = createGameConnection({ ...OPTIONS, maxRetries: 5 });
+    connection.connect();
+    const delays: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      latestSocket().drop();
+      const { nextRetryAt } = connection.getState();
+      delays.push((nextRetryAt ?? 0) - Date.now());
+      jest.advanceTimersByTime(delays[i]);
+    }
+    expect(delays).toEqual([1000, 2000, 3000, 3000]);
+  });
+
+  test('gives up after the last retry and can be retried by hand', () => {
+    const connection = createGameConnection(OPTIONS);
+    connection.connect();
+    for (let i = 0; i < 3; i++) {
+      latestSocket().drop();
+      jest.runOnlyPendingTimers();
+    }
+    latestSocket().drop();
+    expect(connection.getState()).toMatchObject({ status: 'failed', nextRetryAt: null });
+    jest.runOnlyPendingTimers();
+    expect(FakeSocket.instances).toHaveLength(4);
+
+    connection.retryNow();
+    expect(FakeSocket.instances).toHaveLength(5);
+    expect(connection.getState()).toMatchObject({ status: 'connecting', attempt: 0 });
+  });
+
+  test('stops a scheduled retry when cancelled', () => {
+    const connection = createGameConnection(OPTIONS);
+    connection.connect();
+    latestSocket().drop();
+    connection.cancelRetry();
+    expect(connection.getState()).toMatchObject({ status: 'failed', error: 'Reconnection cancelled' });
+    jest.advanceTimersByTime(10000);
+    expect(FakeSocket.instances).toHaveLength(1);
+  });
+
+  test('times out a socket that stops answering pings', () => {
+    const connection = createGameConnection(OPTIONS);
+    connection.connect();
+    const socket = latestSocket();
+    socket.accept();
+
+    jest.advanceTimersByTime(1000);
+    expect(JSON.parse(socket.sent[0])).toMatchObject({ type: 'ping' });
+    socket.receive({ type: 'pong', payload: { timestamp: Date.now() } });
+
+    jest.advanceTimersByTime(2000);
+    expect(connection.getState()).toMatchObject({ status: 'reconnecting', error: 'Connection timed out' });
+  });
+
+  test('keeps a silent socket open when the server never answered a ping', () => {
+    const connection = createGameConnection(OPTIONS);
+    connection.connect();
+    latestSocket().accept();
+    jest.advanceTimersByTime(5000);
+    expect(connection.getState().status).toBe('open');
+  });
+});
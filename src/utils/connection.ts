@@ -0,0 +1,278 @@
+// Game server connection manager: owns the WebSocket, retries with
+// exponential backoff across candidate URLs and detects dead sockets with
+// app-level ping/pong heartbeats. The session token is sent with every
+// handshake; a socket closed for a refused token ends the session instead of
+// retrying.
+import {
+  ClientMessage,
+  GameChannel,
+  ServerMessage,
+  ServerMessageListener,
+  decodeServerMessage,
+  encodeClientMessage,
+} from './protocol';
+import { UNAUTHORIZED_CLOSE_CODE, getAuthToken, rejectSession, withAuthToken } from './session';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'failed';
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  url: string | null;
+  // Retry progress: attempt is 0 until the first reconnect is scheduled
+  attempt: number;
+  maxAttempts: number;
+  nextRetryAt: number | null;
+  // Set once a socket has opened since the last connect() call
+  hasOpened: boolean;
+  latencyMs: number | null;
+  error: string | null;
+}
+
+export interface ConnectionOptions {
+  urls?: string[];
+  maxRetries?: number;
+  initialRetryDelay?: number;
+  maxRetryDelay?: number;
+  heartbeatInterval?: number;
+  heartbeatTimeout?: number;
+}
+
+export interface GameConnection extends GameChannel {
+  connect: () => void;
+  disconnect: () => void;
+  retryNow: () => void;
+  cancelRetry: () => void;
+  getState: () => ConnectionState;
+  onStateChange: (listener: (state: ConnectionState) => void) => () => void;
+  onOpen: (listener: () => void) => () => void;
+}
+
+// Candidate URLs, tried in order on successive attempts
+export const getCandidateUrls = (): string[] => {
+  const candidates: string[] = [];
+  const envWs = process.env.REACT_APP_WS_URL;
+  if (envWs) candidates.push(envWs);
+
+  // Primary deployed backend (Railway)
+  candidates.push('wss://emitrr-assignment-backend-production.up.railway.app/ws');
+
+  // If frontend is served from same host (proxy), try same origin wss
+  const host = window.location.hostname;
+  if (host && host !== 'localhost' && host !== '127.0.0.1') {
+    candidates.push(`wss://${host}/ws`);
+  }
+
+  // Local dev fallback
+  candidates.push('ws://localhost:8080/ws');
+  return candidates;
+};
+
+const DEFAULT_OPTIONS: Required<Omit<ConnectionOptions, 'urls'>> = {
+  maxRetries: 5,
+  initialRetryDelay: 1000,
+  maxRetryDelay: 16000,
+  heartbeatInterval: 15000,
+  heartbeatTimeout: 10000,
+};
+
+export const createGameConnection = (options: ConnectionOptions = {}): GameConnection => {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let lastSeenAt = 0;
+  // Heartbeat timeouts are only enforced once the server has answered a ping,
+  // so backends without pong support are not disconnected
+  let pongSupported = false;
+
+  let state: ConnectionState = {
+    status: 'idle',
+    url: null,
+    attempt: 0,
+    maxAttempts: config.maxRetries,
+    nextRetryAt: null,
+    hasOpened: false,
+    latencyMs: null,
+    error: null,
+  };
+
+  const stateListeners = new Set<(state: ConnectionState) => void>();
+  const messageListeners = new Set<ServerMessageListener>();
+  const openListeners = new Set<() => void>();
+
+  const setState = (patch: Partial<ConnectionState>) => {
+    state = { ...state, ...patch };
+    stateListeners.forEach(listener => listener(state));
+  };
+
+  const clearRetryTimer = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+  };
+
+  // Detach handlers before closing so a deliberate close never triggers a retry
+  const closeSocket = (code = 1000, reason = 'client closed') => {
+    stopHeartbeat();
+    if (!socket) return;
+    const ws = socket;
+    socket = null;
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.onclose = null;
+    try {
+      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+        ws.close(code, reason);
+      }
+    } catch (e) {}
+  };
+
+  const scheduleReconnect = (error: string) => {
+    closeSocket();
+    if (state.attempt >= config.maxRetries) {
+      setState({ status: 'failed', nextRetryAt: null, error });
+      return;
+    }
+    const attempt = state.attempt + 1;
+    const delay = Math.min(config.initialRetryDelay * 2 ** (attempt - 1), config.maxRetryDelay);
+    setState({ status: 'reconnecting', attempt, nextRetryAt: Date.now() + delay, error });
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      open();
+    }, delay);
+  };
+
+  const startHeartbeat = () => {
+    stopHeartbeat();
+    lastSeenAt = Date.now();
+    heartbeatTimer = setInterval(() => {
+      if (pongSupported && Date.now() - lastSeenAt > config.heartbeatInterval + config.heartbeatTimeout) {
+        scheduleReconnect('Connection timed out');
+        return;
+      }
+      send({ type: 'ping', payload: { timestamp: Date.now() } });
+    }, config.heartbeatInterval);
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    lastSeenAt = Date.now();
+    let message: ServerMessage;
+    try {
+      message = decodeServerMessage(event.data);
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.warn('[connection] Dropped frame:', error instanceof Error ? error.message : error);
+      }
+      return;
+    }
+    if (message.type === 'pong') {
+      pongSupported = true;
+      if (message.payload.timestamp) {
+        setState({ latencyMs: Date.now() - message.payload.timestamp });
+      }
+      return;
+    }
+    messageListeners.forEach(listener => listener(message));
+  };
+
+  const open = () => {
+    const urls = config.urls ?? getCandidateUrls();
+    const url = urls[state.attempt % urls.length];
+    if (state.status !== 'reconnecting') {
+      setState({ status: 'connecting' });
+    }
+    setState({ url, nextRetryAt: null });
+
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(withAuthToken(url, getAuthToken()));
+    } catch (error) {
+      scheduleReconnect(error instanceof Error ? error.message : 'Unable to open connection');
+      return;
+    }
+    socket = ws;
+
+    ws.onopen = () => {
+      pongSupported = false;
+      setState({ status: 'open', attempt: 0, hasOpened: true, error: null });
+      startHeartbeat();
+      openListeners.forEach(listener => listener());
+    };
+    ws.onmessage = handleMessage;
+    ws.onerror = () => {
+      // onclose always follows and drives the retry
+    };
+    ws.onclose = (event) => {
+      if (event.code === UNAUTHORIZED_CLOSE_CODE) {
+        clearRetryTimer();
+        closeSocket();
+        setState({ status: 'failed', nextRetryAt: null, error: 'Session rejected' });
+        rejectSession();
+        return;
+      }
+      scheduleReconnect(event.reason || `Connection closed (code ${event.code})`);
+    };
+  };
+
+  const send = (message: ClientMessage): boolean => {
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+    socket.send(encodeClientMessage(message));
+    return true;
+  };
+
+  return {
+    send,
+    subscribe: (listener) => {
+      messageListeners.add(listener);
+      return () => {
+        messageListeners.delete(listener);
+      };
+    },
+    connect: () => {
+      if (socket || retryTimer) return;
+      setState({ attempt: 0, hasOpened: false, error: null });
+      open();
+    },
+    disconnect: () => {
+      clearRetryTimer();
+      closeSocket();
+      setState({ status: 'idle', attempt: 0, nextRetryAt: null, latencyMs: null });
+    },
+    retryNow: () => {
+      clearRetryTimer();
+      closeSocket();
+      if (state.status === 'failed') {
+        setState({ status: 'connecting', attempt: 0, error: null });
+      }
+      open();
+    },
+    cancelRetry: () => {
+      if (!retryTimer) return;
+      clearRetryTimer();
+      setState({ status: 'failed', nextRetryAt: null, error: 'Reconnection cancelled' });
+    },
+    getState: () => state,
+    onStateChange: (listener) => {
+      stateListeners.add(listener);
+      return () => {
+        stateListeners.delete(listener);
+      };
+    },
+    onOpen: (listener) => {
+      openListeners.add(listener);
+      return () => {
+        openListeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,32 @@
+import { debounce } from './debounce';
+
+describe('debounce', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('calls once with the latest arguments after the wait', () => {
+    const func = jest.fn();
+    const debounced = debounce(func, 300);
+    debounced('a');
+    debounced('ab');
+    jest.advanceTimersByTime(299);
+    expect(func).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(func).toHaveBeenCalledWith('ab');
+  });
+
+  test('drops the pending call when cancelled', () => {
+    const func = jest.fn();
+    const debounced = debounce(func, 300);
+    debounced('a');
+    debounced.cancel();
+    jest.advanceTimersByTime(300);
+    expect(func).not.toHaveBeenCalled();
+  });
+});
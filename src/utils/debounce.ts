@@ -1,10 +1,16 @@
+export interface Debounced<T extends (...args: any[]) => any> {
+  (...args: Parameters<T>): void;
+  // Drops a pending call, e.g. when the component that scheduled it unmounts
+  cancel: () => void;
+}
+
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
   wait: number
-): (...args: Parameters<T>) => void {
+): Debounced<T> {
   let timeout: NodeJS.Timeout | null = null;
 
-  return (...args: Parameters<T>) => {
+  const debounced = (...args: Parameters<T>) => {
     if (timeout) {
       clearTimeout(timeout);
     }
@@ -14,4 +20,13 @@ export function debounce<T extends (...args: any[]) => any>(
       timeout = null;
     }, wait);
   };
-}
\ No newline at end of file
+
+  debounced.cancel = () => {
+    if (timeout) {
+      clearTimeout(timeout);
+      timeout = null;
+    }
+  };
+
+  return debounced;
+}
@@ -0,0 +1,249 @@
+import {
+  applyMove,
+  canPlayMove,
+  findWinningLine,
+  getDropRow,
+  getLegalMoves,
+  getPlayerNumber,
+  isDraw,
+  isLegalMove,
+  isPlayersTurn,
+} from './gameRules';
+import { GameState } from '../types';
+
+const emptyBoard = () => Array(6).fill(null).map(() => Array(7).fill(0));
+
+// Build a board from rows of characters: '.' empty, 'x' player 1, 'o' player 2
+const parseBoard = (rows: string[]) =>
+  rows.map(row => row.split('').map(c => (c === 'x' ? 1 : c === 'o' ? 2 : 0)));
+
+const makeState = (overrides: Partial<GameState> = {}): GameState => ({
+  board: emptyBoard(),
+  currentTurn: 1,
+  status: 'in_progress',
+  player1: { id: 'a', username: 'alice' },
+  player2: { id: 'b', username: 'bob' },
+  ...overrides,
+});
+
+describe('getDropRow', () => {
+  test('lands on the bottom row of an empty column', () => {
+    expect(getDropRow(emptyBoard(), 3)).toBe(5);
+  });
+
+  test('stacks on top of existing discs', () => {
+    const board = parseBoard([
+      '.......',
+      '.......',
+      '.......',
+      '.......',
+      '...o...',
+      '...x...',
+    ]);
+    expect(getDropRow(board, 3)).toBe(3);
+  });
+
+  test('returns -1 for a full or out-of-range column', () => {
+    const board = parseBoard([
+      'x......',
+      'o......',
+      'x......',
+      'o......',
+      'x......',
+      'o......',
+    ]);
+    expect(getDropRow(board, 0)).toBe(-1);
+    expect(getDropRow(board, -1)).toBe(-1);
+    expect(getDropRow(board, 7)).toBe(-1);
+    expect(getDropRow(board, 1.5)).toBe(-1);
+  });
+});
+
+describe('legal moves', () => {
+  test('excludes full columns', () => {
+    const board = parseBoard([
+      '.x....o',
+      '.o....x',
+      '.x....o',
+      '.o....x',
+      '.x....o',
+      '.o....x',
+    ]);
+    expect(isLegalMove(board, 1)).toBe(false);
+    expect(isLegalMove(board, 2)).toBe(true);
+    expect(getLegalMoves(board)).toEqual([0, 2, 3, 4, 5]);
+  });
+
+  test('applyMove returns a new board and leaves the input untouched', () => {
+    const board = emptyBoard();
+    const result = applyMove(board, 2, 1);
+    expect(result).not.toBeNull();
+    expect(result!.row).toBe(5);
+    expect(result!.board[5][2]).toBe(1);
+    expect(board[5][2]).toBe(0);
+  });
+
+  test('applyMove returns null for a full column', () => {
+    const board = parseBoard(['x', 'o', 'x', 'o', 'x', 'o']);
+    expect(applyMove(board, 0, 1)).toBeNull();
+  });
+});
+
+describe('turn validation', () => {
+  test('maps usernames to player numbers', () => {
+    const state = makeState();
+    expect(getPlayerNumber(state, 'alice')).toBe(1);
+    expect(getPlayerNumber(state, 'bob')).toBe(2);
+    expect(getPlayerNumber(state, 'carol')).toBeNull();
+  });
+
+  test('only the player whose turn it is may move', () => {
+    const state = makeState({ currentTurn: 2 });
+    expect(isPlayersTurn(state, 'alice')).toBe(false);
+    expect(isPlayersTurn(state, 'bob')).toBe(true);
+    expect(isPlayersTurn(state, 'carol')).toBe(false);
+  });
+
+  test('no one may move outside an in-progress game', () => {
+    expect(isPlayersTurn(makeState({ status: 'waiting' }), 'alice')).toBe(false);
+    expect(isPlayersTurn(makeState({ status: 'completed' }), 'alice')).toBe(false);
+    expect(isPlayersTurn(makeState({ status: 'draw' }), 'alice')).toBe(false);
+  });
+
+  test('canPlayMove combines turn and column checks', () => {
+    const board = parseBoard(['x......', 'o......', 'x......', 'o......', 'x......', 'o......']);
+    const state = makeState({ board });
+    expect(canPlayMove(state, 'alice', 0)).toBe(false);
+    expect(canPlayMove(state, 'alice', 1)).toBe(true);
+    expect(canPlayMove(state, 'bob', 1)).toBe(false);
+  });
+});
+
+describe('findWinningLine', () => {
+  test('returns null when nobody has four in a row', () => {
+    const board = parseBoard([
+      '.......',
+      '.......',
+      '.......',
+      '.......',
+      '.......',
+      'xxxoxxx',
+    ]);
+    expect(findWinningLine(board)).toBeNull();
+  });
+
+  test('detects a horizontal line', () => {
+    const board = parseBoard([
+      '.......',
+      '.......',
+      '.......',
+      '.......',
+      '...ooo.',
+      '..xxxx.',
+    ]);
+    expect(findWinningLine(board)).toEqual({
+      player: 1,
+      cells: [
+        { row: 5, column: 2 },
+        { row: 5, column: 3 },
+        { row: 5, column: 4 },
+        { row: 5, column: 5 },
+      ],
+    });
+  });
+
+  test('detects a vertical line', () => {
+    const board = parseBoard([
+      '.......',
+      '.......',
+      '......o',
+      '......o',
+      'x.....o',
+      'xx....o',
+    ]);
+    const line = findWinningLine(board);
+    expect(line?.player).toBe(2);
+    expect(line?.cells).toEqual([2, 3, 4, 5].map(row => ({ row, column: 6 })));
+  });
+
+  test('detects both diagonal directions', () => {
+    const rising = parseBoard([
+      '.......',
+      '.......',
+      '...x...',
+      '..xo...',
+      '.xoo...',
+      'xooo...',
+    ]);
+    expect(findWinningLine(rising)?.cells).toEqual([
+      { row: 2, column: 3 },
+      { row: 3, column: 2 },
+      { row: 4, column: 1 },
+      { row: 5, column: 0 },
+    ]);
+
+    const falling = parseBoard([
+      '.......',
+      '.......',
+      'o......',
+      'xo.....',
+      'xxo....',
+      'xxxo...',
+    ]);
+    expect(findWinningLine(falling)).toEqual({
+      player: 2,
+      cells: [
+        { row: 2, column: 0 },
+        { row: 3, column: 1 },
+        { row: 4, column: 2 },
+        { row: 5, column: 3 },
+      ],
+    });
+  });
+
+  test('returns every cell of a line longer than four', () => {
+    const board = parseBoard([
+      '.......',
+      '.......',
+      '.......',
+      '.......',
+      '.oooo..',
+      'xxxxxo.',
+    ]);
+    // Rows are scanned top-down, so the upper run is reported first
+    expect(findWinningLine(board)?.player).toBe(2);
+    board[4] = [0, 0, 0, 0, 0, 0, 0];
+    expect(findWinningLine(board)?.cells).toHaveLength(5);
+  });
+});
+
+describe('isDraw', () => {
+  test('is false while there is room left', () => {
+    expect(isDraw(emptyBoard())).toBe(false);
+  });
+
+  test('is true for a full board without a winner', () => {
+    const board = parseBoard([
+      'xxoxxox',
+      'ooxooxo',
+      'xxoxxox',
+      'ooxooxo',
+      'xxoxxox',
+      'ooxooxo',
+    ]);
+    expect(findWinningLine(board)).toBeNull();
+    expect(isDraw(board)).toBe(true);
+  });
+
+  test('is false for a full board with a winner', () => {
+    const board = parseBoard([
+      'xxxxoox',
+      'ooxooxo',
+      'xxoxxox',
+      'ooxooxo',
+      'xxoxxox',
+      'ooxooxo',
+    ]);
+    expect(isDraw(board)).toBe(false);
+  });
+});
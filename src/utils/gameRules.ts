@@ -0,0 +1,128 @@
+// Connect 4 rules: pure helpers over the board matrix (rows top to bottom,
+// 0 = empty, 1/2 = player discs). Nothing here mutates its input.
+import { BoardPosition, GameState, Move, WinningLine } from '../types';
+
+export const CONNECT_LENGTH = 4;
+
+const DIRECTIONS: Array<[number, number]> = [
+  [0, 1],   // horizontal
+  [1, 0],   // vertical
+  [1, 1],   // diagonal down-right
+  [1, -1],  // diagonal down-left
+];
+
+export const getColumnCount = (board: number[][]): number => (board[0] ? board[0].length : 0);
+
+export const isColumnInRange = (board: number[][], column: number): boolean =>
+  Number.isInteger(column) && column >= 0 && column < getColumnCount(board);
+
+// Row a disc dropped into the column would land on, or -1 if the column is full
+export const getDropRow = (board: number[][], column: number): number => {
+  if (!isColumnInRange(board, column)) return -1;
+  for (let row = board.length - 1; row >= 0; row--) {
+    if (board[row][column] === 0) return row;
+  }
+  return -1;
+};
+
+export const isLegalMove = (board: number[][], column: number): boolean =>
+  getDropRow(board, column) !== -1;
+
+export const getLegalMoves = (board: number[][]): number[] => {
+  const moves: number[] = [];
+  for (let column = 0; column < getColumnCount(board); column++) {
+    if (isLegalMove(board, column)) moves.push(column);
+  }
+  return moves;
+};
+
+// Drop a disc and return the new board with the landing row; null if illegal
+export const applyMove = (
+  board: number[][],
+  column: number,
+  player: number
+): { board: number[][]; row: number } | null => {
+  const row = getDropRow(board, column);
+  if (row === -1) return null;
+  const next = board.map(r => r.slice());
+  next[row][column] = player;
+  return { board: next, row };
+};
+
+// Player number (1 or 2) for a username in this game, or null for onlookers
+export const getPlayerNumber = (
+  state: Pick<GameState, 'player1' | 'player2'>,
+  username: string
+): 1 | 2 | null => {
+  if (state.player1?.username === username) return 1;
+  if (state.player2?.username === username) return 2;
+  return null;
+};
+
+export const isPlayersTurn = (
+  state: Pick<GameState, 'status' | 'currentTurn' | 'player1' | 'player2'>,
+  username: string
+): boolean =>
+  state.status === 'in_progress' && getPlayerNumber(state, username) === state.currentTurn;
+
+export const canPlayMove = (state: GameState, username: string, column: number): boolean =>
+  isPlayersTurn(state, username) && isLegalMove(state.board, column);
+
+const collectLine = (
+  board: number[][],
+  start: BoardPosition,
+  [dRow, dCol]: [number, number]
+): BoardPosition[] => {
+  const player = board[start.row][start.column];
+  const cells: BoardPosition[] = [];
+  let row = start.row;
+  let column = start.column;
+  while (row >= 0 && row < board.length && column >= 0 && column < board[row].length && board[row][column] === player) {
+    cells.push({ row, column });
+    row += dRow;
+    column += dCol;
+  }
+  return cells;
+};
+
+// First run of four or more matching discs, scanning from the top-left.
+// Returns every cell in the run so longer lines highlight completely.
+export const findWinningLine = (board: number[][]): WinningLine | null => {
+  for (let row = 0; row < board.length; row++) {
+    for (let column = 0; column < board[row].length; column++) {
+      const player = board[row][column];
+      if (player === 0) continue;
+      for (const direction of DIRECTIONS) {
+        // Only start counting from the first cell of a run
+        const prevRow = row - direction[0];
+        const prevCol = column - direction[1];
+        if (board[prevRow]?.[prevCol] === player) continue;
+        const cells = collectLine(board, { row, column }, direction);
+        if (cells.length >= CONNECT_LENGTH) {
+          return { player, cells };
+        }
+      }
+    }
+  }
+  return null;
+};
+
+// Board after each move of a game: history[0] is empty, history[i] follows
+// moves[i - 1]. Stops early at the first move that cannot be played.
+export const buildBoardHistory = (moves: Move[], rows: number, columns: number): number[][][] => {
+  let board: number[][] = Array(rows).fill(null).map(() => Array(columns).fill(0));
+  const history = [board];
+  for (const move of moves) {
+    const result = applyMove(board, move.column, move.player);
+    if (!result) break;
+    board = result.board;
+    history.push(board);
+  }
+  return history;
+};
+
+export const isBoardFull = (board: number[][]): boolean =>
+  board.length > 0 && board[0].every(cell => cell !== 0);
+
+export const isDraw = (board: number[][]): boolean =>
+  isBoardFull(board) && findWinningLine(board) === null;
@@ -0,0 +1,100 @@
+import {
+  LeaderboardQuery,
+  applyOptimisticWin,
+  buildLeaderboardQuery,
+  decodeLeaderboard,
+  queryLeaderboard,
+  supportsTimeWindows,
+  toLeaderboardPage,
+} from './leaderboard';
+import { PlayerStats } from '../types';
+
+const stats = (username: string, gamesWon: number, gamesPlayed: number): PlayerStats => ({
+  username,
+  gamesWon,
+  gamesPlayed,
+  winPercentage: (gamesWon / gamesPlayed) * 100,
+});
+
+const players = [stats('amy', 3, 10), stats('bob', 5, 6), stats('cat', 4, 4), stats('dan', 1, 20)];
+
+const query = (overrides: Partial<LeaderboardQuery> = {}): LeaderboardQuery => ({
+  window: 'all',
+  sort: 'gamesWon',
+  search: '',
+  page: 1,
+  pageSize: 2,
+  username: 'dan',
+  ...overrides,
+});
+
+describe('leaderboard query', () => {
+  test('encodes window, sort, paging and the viewer', () => {
+    const params = new URLSearchParams(buildLeaderboardQuery(query({ window: 'week', search: ' bo ', page: 3 })));
+    expect(params.get('window')).toBe('week');
+    expect(params.get('sort')).toBe('gamesWon');
+    expect(params.get('page')).toBe('3');
+    expect(params.get('pageSize')).toBe('2');
+    expect(params.get('search')).toBe('bo');
+    expect(params.get('username')).toBe('dan');
+  });
+
+  test('omits an empty search', () => {
+    expect(buildLeaderboardQuery(query({ search: '  ' }))).not.toContain('search');
+  });
+});
+
+describe('local paging', () => {
+  test('sorts by the chosen column and ranks every row', () => {
+    const page = queryLeaderboard(players, query({ sort: 'winPercentage' }));
+    expect(page.entries.map(p => [p.rank, p.username])).toEqual([[1, 'cat'], [2, 'bob']]);
+    expect(page.total).toBe(4);
+  });
+
+  test('finds the viewer off the current page', () => {
+    expect(queryLeaderboard(players, query()).player).toMatchObject({ username: 'dan', rank: 4 });
+  });
+
+  test('search keeps overall ranks', () => {
+    const page = queryLeaderboard(players, query({ search: 'A' }));
+    expect(page.entries.map(p => [p.rank, p.username])).toEqual([[2, 'cat'], [3, 'amy']]);
+    expect(page.total).toBe(3);
+  });
+});
+
+describe('response decoding', () => {
+  test('pages a bare array locally', () => {
+    const data = decodeLeaderboard(players, query());
+    expect(data.kind).toBe('full');
+    expect(toLeaderboardPage(data, query({ page: 2 })).entries.map(p => p.username)).toEqual(['amy', 'dan']);
+  });
+
+  test('reads a server page, defaulting missing ranks from the offset', () => {
+    const data = decodeLeaderboard(
+      { entries: [{ username: 'bob', gamesWon: 5, gamesPlayed: 6, winPercentage: 83.3 }], total: 9, player: { ...stats('dan', 1, 20), rank: 9 } },
+      query({ page: 2 })
+    );
+    const page = toLeaderboardPage(data, query());
+    expect(page.entries[0]).toMatchObject({ username: 'bob', rank: 3 });
+    expect(page.total).toBe(9);
+    expect(page.player).toMatchObject({ username: 'dan', rank: 9 });
+  });
+
+  test('only server pages honour the time window', () => {
+    expect(supportsTimeWindows(decodeLeaderboard(players, query({ window: 'week' })))).toBe(false);
+    expect(supportsTimeWindows(decodeLeaderboard({ entries: [], total: 0 }, query({ window: 'week' })))).toBe(true);
+  });
+});
+
+describe('optimistic wins', () => {
+  test('adds a new winner to the full table', () => {
+    const data = applyOptimisticWin(decodeLeaderboard(players, query()), 'eve');
+    expect(data.kind === 'full' && data.players.find(p => p.username === 'eve')).toMatchObject({ gamesWon: 1, winPercentage: 100 });
+  });
+
+  test('updates visible rows and the viewer on a server page', () => {
+    const page = queryLeaderboard(players, query());
+    const data = applyOptimisticWin({ kind: 'page', page }, 'dan');
+    expect(data.kind === 'page' && data.page.player).toMatchObject({ gamesWon: 2, gamesPlayed: 21 });
+  });
+});
@@ -0,0 +1,160 @@
+// Leaderboard queries: building the /leaderboard request, reading either
+// response shape and applying optimistic wins between refreshes
+import { PlayerStats } from '../types';
+
+export type LeaderboardSortKey = 'gamesWon' | 'gamesPlayed' | 'winPercentage';
+export type LeaderboardWindow = 'all' | 'week' | 'today';
+
+export const LEADERBOARD_WINDOWS: { id: LeaderboardWindow; label: string }[] = [
+  { id: 'all', label: 'All time' },
+  { id: 'week', label: 'This week' },
+  { id: 'today', label: 'Today' },
+];
+
+export const LEADERBOARD_PAGE_SIZE = 10;
+
+export interface LeaderboardQuery {
+  window: LeaderboardWindow;
+  sort: LeaderboardSortKey;
+  search: string;
+  // 1-based
+  page: number;
+  pageSize: number;
+  // Asks the server for this player's rank alongside the page
+  username?: string | null;
+}
+
+export type RankedPlayer = PlayerStats & { rank: number };
+
+export interface LeaderboardPage {
+  entries: RankedPlayer[];
+  // Players matching the search, across all pages
+  total: number;
+  // The current user's row, wherever it falls; null if they have no games
+  player: RankedPlayer | null;
+}
+
+export const buildLeaderboardQuery = (query: LeaderboardQuery): string => {
+  const params = new URLSearchParams({
+    window: query.window,
+    sort: query.sort,
+    order: 'desc',
+    page: String(query.page),
+    pageSize: String(query.pageSize),
+  });
+  const search = query.search.trim();
+  if (search) params.set('search', search);
+  if (query.username) params.set('username', query.username);
+  return params.toString();
+};
+
+const toNumber = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : 0;
+
+const decodeStats = (value: unknown): PlayerStats | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.username !== 'string' || !raw.username) return null;
+  return {
+    username: raw.username,
+    gamesPlayed: toNumber(raw.gamesPlayed),
+    gamesWon: toNumber(raw.gamesWon),
+    winPercentage: toNumber(raw.winPercentage),
+  };
+};
+
+const decodeRanked = (value: unknown, fallbackRank: number): RankedPlayer | null => {
+  const stats = decodeStats(value);
+  if (!stats) return null;
+  const rank = (value as Record<string, unknown>).rank;
+  return { ...stats, rank: typeof rank === 'number' && rank > 0 ? rank : fallbackRank };
+};
+
+// Highest first; ties fall back to wins, then win rate, then name
+export const sortLeaderboard = <T extends PlayerStats>(players: T[], sort: LeaderboardSortKey): T[] =>
+  players.slice().sort((a, b) =>
+    (b[sort] - a[sort])
+    || (b.gamesWon - a.gamesWon)
+    || (b.winPercentage - a.winPercentage)
+    || a.username.localeCompare(b.username)
+  );
+
+// Sort, search and page a full list, for backends that ignore the query. The
+// bare list has no dates, so query.window cannot be applied: see
+// supportsTimeWindows.
+export const queryLeaderboard = (players: PlayerStats[], query: LeaderboardQuery): LeaderboardPage => {
+  const ranked = sortLeaderboard(players, query.sort).map((player, index) => ({ ...player, rank: index + 1 }));
+  const needle = query.search.trim().toLowerCase();
+  const matches = needle ? ranked.filter(player => player.username.toLowerCase().includes(needle)) : ranked;
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    entries: matches.slice(start, start + query.pageSize),
+    total: matches.length,
+    player: ranked.find(player => player.username === query.username) ?? null,
+  };
+};
+
+// Newer backends answer with one page; older ones with the whole table as a
+// bare array, which is then sorted and paged here
+export type LeaderboardData =
+  | { kind: 'full'; players: PlayerStats[] }
+  | { kind: 'page'; page: LeaderboardPage };
+
+export const decodeLeaderboard = (data: unknown, query: LeaderboardQuery): LeaderboardData => {
+  if (Array.isArray(data)) {
+    return { kind: 'full', players: data.map(decodeStats).filter((p): p is PlayerStats => p !== null) };
+  }
+  const raw = typeof data === 'object' && data !== null ? data as Record<string, unknown> : {};
+  const offset = (query.page - 1) * query.pageSize;
+  const entries = (Array.isArray(raw.entries) ? raw.entries : [])
+    .map((entry, index) => decodeRanked(entry, offset + index + 1))
+    .filter((p): p is RankedPlayer => p !== null);
+  return {
+    kind: 'page',
+    page: {
+      entries,
+      total: typeof raw.total === 'number' ? raw.total : entries.length,
+      player: decodeRanked(raw.player, 0),
+    },
+  };
+};
+
+// Only paged answers are filtered by time window; the whole-table answer of
+// older backends is always all-time
+export const supportsTimeWindows = (data: LeaderboardData): boolean => data.kind === 'page';
+
+export const toLeaderboardPage = (data: LeaderboardData, query: LeaderboardQuery): LeaderboardPage =>
+  data.kind === 'full' ? queryLeaderboard(data.players, query) : data.page;
+
+export const pageCount = (total: number, pageSize: number): number =>
+  Math.max(1, Math.ceil(total / pageSize));
+
+const addWin = <T extends PlayerStats>(player: T): T => {
+  const gamesPlayed = player.gamesPlayed + 1;
+  const gamesWon = player.gamesWon + 1;
+  return { ...player, gamesPlayed, gamesWon, winPercentage: (gamesWon / gamesPlayed) * 100 };
+};
+
+// Count a win before the server's numbers catch up. With the whole table a
+// new winner is added; on a single page only visible rows can be updated,
+// since the rank of anyone else is unknown.
+export const applyOptimisticWin = (data: LeaderboardData, winner: string): LeaderboardData => {
+  if (data.kind === 'full') {
+    const known = data.players.some(player => player.username === winner);
+    return {
+      kind: 'full',
+      players: known
+        ? data.players.map(player => (player.username === winner ? addWin(player) : player))
+        : [...data.players, { username: winner, gamesPlayed: 1, gamesWon: 1, winPercentage: 100 }],
+    };
+  }
+  const { page } = data;
+  return {
+    kind: 'page',
+    page: {
+      ...page,
+      entries: page.entries.map(player => (player.username === winner ? addWin(player) : player)),
+      player: page.player?.username === winner ? addWin(page.player) : page.player,
+    },
+  };
+};
@@ -0,0 +1,56 @@
+import { applyPresence, filterActiveUsers, groupLiveGames } from './lobby';
+import { ActiveUser } from '../types';
+
+const users: ActiveUser[] = [
+  { username: 'zoe', status: 'in_game', gameId: 'g1' },
+  { username: 'Bob', status: 'waiting' },
+  { username: 'amy', status: 'in_game', gameId: 'g1' },
+  { username: 'alice', status: 'waiting' },
+];
+
+describe('active player list', () => {
+  test('lists waiting players first, then by name', () => {
+    expect(filterActiveUsers(users, '').map(user => user.username)).toEqual(['alice', 'Bob', 'amy', 'zoe']);
+  });
+
+  test('searches names case-insensitively', () => {
+    expect(filterActiveUsers(users, ' A ').map(user => user.username)).toEqual(['alice', 'amy']);
+    expect(filterActiveUsers(users, 'nobody')).toEqual([]);
+  });
+
+  test('does not reorder the input', () => {
+    filterActiveUsers(users, '');
+    expect(users[0].username).toBe('zoe');
+  });
+});
+
+describe('live games', () => {
+  test('pairs players sharing a game id', () => {
+    expect(groupLiveGames(users)).toEqual([
+      { key: 'g1', target: { gameId: 'g1', player: 'zoe' }, players: ['zoe', 'amy'] },
+    ]);
+  });
+
+  test('keeps players without a game id apart', () => {
+    const games = groupLiveGames([
+      { username: 'a', status: 'in_game' },
+      { username: 'b', status: 'in_game' },
+    ]);
+    expect(games.map(game => game.target)).toEqual([{ player: 'a', gameId: undefined }, { player: 'b', gameId: undefined }]);
+  });
+});
+
+describe('presence pushes', () => {
+  test('adds, updates and removes players', () => {
+    const next = applyPresence(users, {
+      updated: [{ username: 'Bob', status: 'in_game', gameId: 'g2' }, { username: 'new', status: 'waiting' }],
+      left: ['zoe'],
+    });
+    expect(next.map(user => `${user.username}:${user.status}`)).toEqual(['amy:in_game', 'alice:waiting', 'Bob:in_game', 'new:waiting']);
+  });
+
+  test('a snapshot replaces the list', () => {
+    expect(applyPresence(users, { users: [{ username: 'solo', status: 'waiting' }], updated: [], left: [] }))
+      .toEqual([{ username: 'solo', status: 'waiting' }]);
+  });
+});
@@ -0,0 +1,59 @@
+// Lobby helpers: searching the active player list, grouping live games and
+// describing how a direct challenge ended
+import { ChallengeCloseReason } from './protocol';
+import { ActiveUser, SpectateTarget } from '../types';
+
+// How long a challenge stays open if the server does not say
+export const CHALLENGE_TIMEOUT_MS = 30000;
+
+export const CHALLENGE_CLOSE_MESSAGES: Record<ChallengeCloseReason, string> = {
+  declined: 'declined your challenge.',
+  cancelled: 'withdrew the challenge.',
+  expired: 'Challenge expired.',
+  unavailable: 'That player is no longer available.',
+};
+
+export interface LiveGame {
+  key: string;
+  target: SpectateTarget;
+  players: string[];
+}
+
+export interface PresenceDelta {
+  users?: ActiveUser[];
+  updated: ActiveUser[];
+  left: string[];
+}
+
+// Fold a pushed presence change into the list; a snapshot replaces it
+export const applyPresence = (users: ActiveUser[], delta: PresenceDelta): ActiveUser[] => {
+  const base = delta.users ?? users;
+  const gone = new Set([...delta.left, ...delta.updated.map(user => user.username)]);
+  return [...base.filter(user => !gone.has(user.username)), ...delta.updated];
+};
+
+// Players matching the search, waiting players first, then by name
+export const filterActiveUsers = (users: ActiveUser[], query: string): ActiveUser[] => {
+  const needle = query.trim().toLowerCase();
+  return users
+    .filter(user => !needle || user.username.toLowerCase().includes(needle))
+    .sort((a, b) => {
+      if (a.status !== b.status) return a.status === 'waiting' ? -1 : 1;
+      return a.username.localeCompare(b.username, undefined, { sensitivity: 'base' });
+    });
+};
+
+// One entry per game; users the server lists without a game id stand alone
+export const groupLiveGames = (users: ActiveUser[]): LiveGame[] => {
+  const games = new Map<string, LiveGame>();
+  users.filter(user => user.status === 'in_game').forEach(user => {
+    const key = user.gameId ?? `player:${user.username}`;
+    const game = games.get(key);
+    if (game) {
+      game.players.push(user.username);
+    } else {
+      games.set(key, { key, target: { gameId: user.gameId, player: user.username }, players: [user.username] });
+    }
+  });
+  return Array.from(games.values());
+};
@@ -0,0 +1,172 @@
+import { createLocalGame } from './localGame';
+import { GameChannel, ServerMessage } from './protocol';
+import { releaseAiWorker, requestAiMove } from './aiPlayer';
+import { GameState } from '../types';
+
+jest.mock('./aiPlayer', () => ({
+  requestAiMove: jest.fn(),
+  releaseAiWorker: jest.fn(),
+}));
+
+const mockRequestAiMove = requestAiMove as jest.MockedFunction<typeof requestAiMove>;
+const mockReleaseAiWorker = releaseAiWorker as jest.MockedFunction<typeof releaseAiWorker>;
+
+// A full board with no four in a row
+const DRAWN_GAME = [
+  0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 2, 2, 4, 3, 3,
+  3, 3, 3, 3, 4, 4, 4, 4, 4, 5, 5, 5, 5, 5, 5, 6, 6, 6, 6, 6, 6,
+];
+
+// Let lazy imports and engine replies settle, then deliver emitted messages
+const settle = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+  jest.runOnlyPendingTimers();
+};
+
+const watch = (channel: GameChannel) => {
+  const messages: ServerMessage[] = [];
+  const unsubscribe = channel.subscribe(message => messages.push(message));
+  const latestState = (): GameState => {
+    const states = messages.filter(
+      (m): m is Extract<ServerMessage, { type: 'gameState' | 'gameStart' }> => m.type === 'gameState' || m.type === 'gameStart'
+    );
+    return states[states.length - 1].payload;
+  };
+  return { messages, latestState, unsubscribe };
+};
+
+const move = (channel: GameChannel, column: number) =>
+  channel.send({ type: 'move', payload: { column } });
+
+describe('hot-seat game', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('alternates turns and rejects moves into a full column', async () => {
+    const channel = createLocalGame('amy');
+    const { messages, latestState } = watch(channel);
+    await settle();
+    expect(latestState()).toMatchObject({ status: 'in_progress', currentTurn: 1 });
+
+    move(channel, 3);
+    await settle();
+    expect(latestState()).toMatchObject({ currentTurn: 2, lastMove: { row: 5, column: 3, player: 1 } });
+
+    [3, 3, 3, 3, 3].forEach(column => move(channel, column));
+    move(channel, 3);
+    await settle();
+    expect(messages[messages.length - 1]).toEqual({ type: 'error', payload: { message: 'Column is full' } });
+    expect(latestState().currentTurn).toBe(1);
+  });
+
+  test('detects a win and ignores moves after it', async () => {
+    const channel = createLocalGame('amy');
+    const { messages, latestState } = watch(channel);
+    [0, 1, 0, 1, 0, 1, 0].forEach(column => move(channel, column));
+    await settle();
+    expect(latestState()).toMatchObject({ status: 'completed', winner: { username: 'amy' } });
+    expect(messages).toContainEqual({ type: 'gameFinished', payload: { winner: 'amy', isDraw: false, botWon: false } });
+
+    const count = messages.length;
+    move(channel, 5);
+    await settle();
+    expect(messages).toHaveLength(count);
+  });
+
+  test('detects a draw on a full board', async () => {
+    const channel = createLocalGame('amy');
+    const { messages, latestState } = watch(channel);
+    DRAWN_GAME.forEach(column => move(channel, column));
+    await settle();
+    expect(latestState().status).toBe('draw');
+    expect(messages).toContainEqual({ type: 'gameFinished', payload: { winner: null, isDraw: true, botWon: false } });
+  });
+
+  test('starts a fresh game with the seats swapped on play again', async () => {
+    const channel = createLocalGame('amy');
+    const { latestState } = watch(channel);
+    move(channel, 0);
+    channel.send({ type: 'playAgain', payload: {} });
+    await settle();
+    expect(latestState().board.flat().every(cell => cell === 0)).toBe(true);
+    expect(latestState().player1?.username).toBe('Player 2');
+    expect(latestState().player2?.username).toBe('amy');
+  });
+});
+
+describe('game against the AI', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockRequestAiMove.mockReset();
+    mockReleaseAiWorker.mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('plays the engine move and refuses moves on its turn', async () => {
+    mockRequestAiMove.mockResolvedValue(4);
+    const channel = createLocalGame('amy', { aiDifficulty: 'easy' });
+    const { latestState } = watch(channel);
+    move(channel, 3);
+    expect(move(channel, 2)).toBe(false);
+    await settle();
+    await settle();
+    expect(latestState()).toMatchObject({ currentTurn: 1, lastMove: { row: 5, column: 4, player: 2 } });
+  });
+
+  test('drops engine replies meant for a game that was reset', async () => {
+    const replies: Array<(column: number) => void> = [];
+    mockRequestAiMove.mockImplementation(() => new Promise(resolve => replies.push(resolve)));
+    const channel = createLocalGame('amy', { aiDifficulty: 'easy' });
+    const { latestState } = watch(channel);
+    move(channel, 3);
+    await settle();
+
+    // The engine opens the rematch
+    channel.send({ type: 'playAgain', payload: {} });
+    await settle();
+    expect(replies).toHaveLength(2);
+
+    replies[0](6);
+    replies[1](2);
+    await settle();
+    await settle();
+    const discs = latestState().board.flat().filter(cell => cell !== 0);
+    expect(discs).toHaveLength(1);
+    expect(latestState().lastMove).toEqual({ row: 5, column: 2, player: 1 });
+  });
+
+  test('searches on the main thread when the worker fails', async () => {
+    mockRequestAiMove.mockRejectedValue(new Error('worker crashed'));
+    const channel = createLocalGame('amy', { aiDifficulty: 'easy' });
+    const { latestState } = watch(channel);
+    move(channel, 3);
+    await settle();
+    await settle();
+    expect(latestState()).toMatchObject({ currentTurn: 1, lastMove: { player: 2 } });
+  });
+
+  test('stops the worker once nobody is watching', async () => {
+    const channel = createLocalGame('amy', { aiDifficulty: 'easy' });
+    const { unsubscribe } = watch(channel);
+    unsubscribe();
+    await settle();
+    expect(releaseAiWorker).toHaveBeenCalled();
+  });
+
+  test('keeps the worker when a listener comes straight back', async () => {
+    mockRequestAiMove.mockReturnValue(new Promise(() => undefined));
+    const channel = createLocalGame('amy', { aiDifficulty: 'easy' });
+    watch(channel).unsubscribe();
+    watch(channel);
+    await settle();
+    expect(releaseAiWorker).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,152 @@
+// Offline game loop for hot-seat play and games against the built-in AI.
+// Implements the same GameChannel the server connection does, answering moves
+// locally with the rules engine.
+import { GameChannel, ServerMessage, ServerMessageListener, createEmptyBoard } from './protocol';
+import { applyMove, findWinningLine, isDraw } from './gameRules';
+import { AI_DIFFICULTY_LABELS, chooseMove } from './aiEngine';
+import { AiDifficulty, GameState, Player } from '../types';
+
+export const LOCAL_OPPONENT_NAME = 'Player 2';
+
+const localPlayer = (username: string, seat: number): Player => ({
+  id: `local-${seat}`,
+  username,
+  isBot: false,
+});
+
+export interface LocalGameOptions {
+  // When set, the second seat is played by the engine at this level
+  aiDifficulty?: AiDifficulty;
+}
+
+export const createLocalGame = (username: string, options: LocalGameOptions = {}): GameChannel => {
+  const { aiDifficulty } = options;
+  const opponent: Player = aiDifficulty
+    ? { id: 'local-ai', username: `Computer (${AI_DIFFICULTY_LABELS[aiDifficulty]})`, isBot: true }
+    : localPlayer(username === LOCAL_OPPONENT_NAME ? `${LOCAL_OPPONENT_NAME} (guest)` : LOCAL_OPPONENT_NAME, 2);
+  let players: [Player, Player] = [localPlayer(username, 1), opponent];
+  const listeners = new Set<ServerMessageListener>();
+  // Bumped on every new game so late engine replies for an old board are dropped
+  let generation = 0;
+
+  const newGame = (): GameState => ({
+    board: createEmptyBoard(),
+    currentTurn: 1,
+    status: 'in_progress',
+    player1: players[0],
+    player2: players[1],
+  });
+
+  let state = newGame();
+
+  // Deliver asynchronously, as a socket would
+  const emit = (message: ServerMessage, only?: ServerMessageListener) => {
+    setTimeout(() => {
+      if (only) {
+        if (listeners.has(only)) only(message);
+        return;
+      }
+      listeners.forEach(listener => listener(message));
+    }, 0);
+  };
+
+  const playMove = (column: number) => {
+    if (state.status !== 'in_progress') return;
+    const result = applyMove(state.board, column, state.currentTurn);
+    if (!result) {
+      emit({ type: 'error', payload: { message: 'Column is full' } });
+      return;
+    }
+
+    const lastMove = { row: result.row, column, player: state.currentTurn };
+    const line = findWinningLine(result.board);
+    const mover = state.currentTurn === 1 ? state.player1 : state.player2;
+
+    if (line) {
+      state = { ...state, board: result.board, lastMove, status: 'completed', winner: mover };
+    } else if (isDraw(result.board)) {
+      state = { ...state, board: result.board, lastMove, status: 'draw' };
+    } else {
+      state = { ...state, board: result.board, lastMove, currentTurn: state.currentTurn === 1 ? 2 : 1 };
+    }
+
+    emit({ type: 'gameState', payload: state });
+    if (state.status !== 'in_progress') {
+      emit({
+        type: 'gameFinished',
+        payload: {
+          winner: state.winner?.username ?? null,
+          isDraw: state.status === 'draw',
+          botWon: state.winner?.isBot === true,
+        },
+      });
+      return;
+    }
+    scheduleAiMove();
+  };
+
+  const currentPlayer = () => (state.currentTurn === 1 ? state.player1 : state.player2);
+
+  const scheduleAiMove = () => {
+    if (!aiDifficulty || !currentPlayer()?.isBot) return;
+    const requestedFor = generation;
+    const { board, currentTurn } = state;
+    // Loaded lazily so the worker bundle is only fetched for AI games
+    import('./aiPlayer')
+      .then(({ requestAiMove }) => requestAiMove(board, currentTurn, aiDifficulty))
+      // A chunk that fails to load or a crashed worker must not stall the
+      // game: search on the main thread instead
+      .catch(() => (requestedFor === generation ? chooseMove(board, currentTurn, aiDifficulty) : null))
+      .then((column) => {
+        if (column !== null && requestedFor === generation) playMove(column);
+      })
+      .catch(() => {
+        if (requestedFor === generation) {
+          emit({ type: 'error', payload: { message: 'The computer could not choose a move' } });
+        }
+      });
+  };
+
+  return {
+    send: (message) => {
+      switch (message.type) {
+        case 'move':
+          if (currentPlayer()?.isBot) return false;
+          playMove(message.payload.column);
+          break;
+        case 'playAgain':
+          // Alternate who opens each rematch
+          players = [players[1], players[0]];
+          generation++;
+          state = newGame();
+          emit({ type: 'gameStart', payload: state });
+          scheduleAiMove();
+          break;
+        default:
+          break;
+      }
+      return true;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      emit({ type: 'gameStart', payload: state }, listener);
+      // Picks up the engine's turn again after the game was left unwatched
+      if (listeners.size === 1) scheduleAiMove();
+      return () => {
+        listeners.delete(listener);
+        if (aiDifficulty && listeners.size === 0) {
+          // Nobody is playing: drop any reply in flight and stop the worker
+          generation++;
+          import('./aiPlayer')
+            .then(({ releaseAiWorker }) => {
+              // A listener that came back meanwhile (a remount) may already
+              // have a request with the worker
+              if (listeners.size === 0) releaseAiWorker();
+            })
+            // Nothing to stop if the worker client never loaded
+            .catch(() => undefined);
+        }
+      };
+    },
+  };
+};
@@ -0,0 +1,80 @@
+import { STORED_STATE_VERSION, loadUsername, migrateGameState, saveUsername } from './localStorage';
+import { StorageError, addStorageErrorListener, removeStorageErrorListener } from './storageErrors';
+
+const board = Array(6).fill(null).map(() => Array(7).fill(0));
+
+describe('migrateGameState', () => {
+  test('upgrades an unversioned save and fills in the move list', () => {
+    const migrated = migrateGameState({ board, currentTurn: 1, status: 'in_progress' });
+    expect(migrated).toMatchObject({ version: STORED_STATE_VERSION, moves: [] });
+  });
+
+  test('keeps current saves as they are', () => {
+    const moves = [{ row: 5, column: 3, player: 1 }];
+    const saved = { board, currentTurn: 2, status: 'in_progress', moves, version: STORED_STATE_VERSION };
+    expect(migrateGameState(saved)).toEqual(saved);
+  });
+
+  test('discards saves from a newer build and broken shapes', () => {
+    expect(migrateGameState({ board, currentTurn: 1, status: 'waiting', version: STORED_STATE_VERSION + 1 })).toBeNull();
+    expect(migrateGameState({ board: 'nope', currentTurn: 1, status: 'waiting' })).toBeNull();
+    expect(migrateGameState([])).toBeNull();
+    expect(migrateGameState(null)).toBeNull();
+  });
+
+  test('discards saves with unusable moves', () => {
+    const save = { board, currentTurn: 1, status: 'in_progress', version: STORED_STATE_VERSION };
+    expect(migrateGameState({ ...save, moves: [null] })).toBeNull();
+    expect(migrateGameState({ ...save, moves: [{}] })).toBeNull();
+    expect(migrateGameState({ ...save, moves: [{ row: 5, column: 3, player: 3 }] })).toBeNull();
+    expect(migrateGameState({ ...save, moves: 'nope' })).toBeNull();
+  });
+});
+
+describe('storage fallback', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    sessionStorage.clear();
+  });
+
+  test('drops a save that cannot be migrated', () => {
+    jest.isolateModules(() => {
+      const storage = require('./localStorage');
+      sessionStorage.setItem('connect4_gameState', JSON.stringify({ status: 'waiting', version: 99 }));
+      expect(storage.loadGameState()).toBeNull();
+      expect(sessionStorage.getItem('connect4_gameState')).toBeNull();
+    });
+  });
+
+  test('keeps working in memory when sessionStorage refuses writes', () => {
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('denied', 'SecurityError');
+    });
+    const errors: StorageError[] = [];
+    const onError = (error: StorageError) => errors.push(error);
+
+    jest.isolateModules(() => {
+      const { addStorageErrorListener: addListener } = require('./storageErrors');
+      addListener(onError);
+      const storage = require('./localStorage');
+      storage.saveUsername('alice');
+      expect(storage.loadUsername()).toBe('alice');
+      expect(storage.isUsingMemoryStorage()).toBe(true);
+    });
+    expect(errors.map(error => error.name)).toEqual(['StorageUnavailableError']);
+  });
+
+  test('reports quota errors without losing earlier saves', () => {
+    const errors: StorageError[] = [];
+    const onError = (error: StorageError) => errors.push(error);
+    addStorageErrorListener(onError);
+    saveUsername('alice');
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('full', 'QuotaExceededError');
+    });
+    saveUsername('bob');
+    removeStorageErrorListener(onError);
+    expect(loadUsername()).toBe('alice');
+    expect(errors.map(error => error.name)).toEqual(['StorageQuotaError']);
+  });
+});
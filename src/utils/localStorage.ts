@@ -1,169 +1,377 @@
 // Session storage utilities for game state persistence
-// Uses sessionStorage which automatically clears when the browser tab is closed
+// Uses sessionStorage which automatically clears when the browser tab is closed.
+// Where sessionStorage cannot be used (private mode, storage disabled) we fall
+// back to an in-memory store for the rest of the page's life.
+import { AiDifficulty, AnimationSpeed, AuthSession, GameMode, GameState, Move, RoomRequest, TimeControl } from '../types';
+import { ProtocolError, decodeGameState, decodeTimeControl } from './protocol';
+import {
+  StorageUnavailableError,
+  classifyStorageError,
+  notifyError,
+} from './storageErrors';
 
 const STORAGE_KEYS = {
   GAME_STATE: 'connect4_gameState',
   USERNAME: 'connect4_username',
   GAME_MODE: 'connect4_gameMode',
+  AI_DIFFICULTY: 'connect4_aiDifficulty',
+  ANIMATION_SPEED: 'connect4_animationSpeed',
+  ROOM: 'connect4_room',
+  TIME_CONTROL: 'connect4_timeControl',
+  SESSION: 'connect4_session',
   LAST_UPDATED: 'connect4_lastUpdated',
 };
 
-// Helper to get storage (sessionStorage for session-only persistence)
-const getStorage = () => sessionStorage;
+type KeyValueStore = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
 
-export interface StoredGameState {
-  board: number[][];
-  currentTurn: number;
-  status: 'waiting' | 'in_progress' | 'completed' | 'draw';
-  player1?: {
-    username: string;
-    id?: string;
-    isBot?: boolean;
-  };
-  player2?: {
-    username: string;
-    id?: string;
-    isBot?: boolean;
-  };
-  winner?: {
-    username: string;
-    id?: string;
-    isBot?: boolean;
-  };
-  lastMove?: {
-    row: number;
-    column: number;
-    player: number;
+const createMemoryStorage = (): KeyValueStore => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
   };
+};
+
+let storage: KeyValueStore | null = null;
+let usingMemoryStorage = false;
+
+// Move to the in-memory store, carrying over whatever can still be read
+const fallBackToMemory = (previous: KeyValueStore | null) => {
+  const memory = createMemoryStorage();
+  Object.values(STORAGE_KEYS).forEach(key => {
+    try {
+      const value = previous?.getItem(key);
+      if (value !== null && value !== undefined) memory.setItem(key, value);
+    } catch (error) {
+      // unreadable; nothing to carry over
+    }
+  });
+  storage = memory;
+  usingMemoryStorage = true;
+  notifyError(new StorageUnavailableError());
+};
+
+// Helper to get storage (sessionStorage for session-only persistence).
+// A probe write catches browsers that expose sessionStorage but refuse
+// writes, such as older Safari private windows with a zero quota.
+const getStorage = (): KeyValueStore => {
+  if (storage) return storage;
+  try {
+    const probeKey = 'connect4_probe';
+    sessionStorage.setItem(probeKey, probeKey);
+    sessionStorage.removeItem(probeKey);
+    storage = sessionStorage;
+  } catch (error) {
+    fallBackToMemory(null);
+  }
+  return storage as KeyValueStore;
+};
+
+// True once saves only live in memory and will be lost on reload
+export const isUsingMemoryStorage = (): boolean => {
+  getStorage();
+  return usingMemoryStorage;
+};
+
+// Run a write, reporting failures on the storage error bus. If storage has
+// become unusable the write is retried against the in-memory store.
+const write = (action: (store: KeyValueStore) => void): void => {
+  try {
+    action(getStorage());
+  } catch (error) {
+    const storageError = classifyStorageError(error);
+    if (storageError instanceof StorageUnavailableError && !usingMemoryStorage) {
+      fallBackToMemory(storage);
+      action(getStorage());
+      return;
+    }
+    notifyError(storageError);
+  }
+};
+
+const read = (key: string): string | null => {
+  try {
+    return getStorage().getItem(key);
+  } catch (error) {
+    if (!usingMemoryStorage) fallBackToMemory(null);
+    return null;
+  }
+};
+
+// Bump when the saved game shape changes and add a migration from the old version
+export const STORED_STATE_VERSION = 2;
+
+export interface StoredGameState extends GameState {
+  version?: number;
+  // Ordered move list so replays survive a reload
+  moves?: Move[];
+  // When play began, for the match history's duration
+  startedAt?: number;
 }
 
-// Save game state to session storage
-export const saveGameState = (gameState: StoredGameState): void => {
+type SavedData = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1
+const MIGRATIONS: Record<number, (data: SavedData) => SavedData> = {
+  // Version 1 saves predate the version field and may lack the move list
+  1: data => ({ ...data, moves: Array.isArray(data.moves) ? data.moves : [] }),
+};
+
+const isMove = (value: unknown): value is Move => {
+  if (!value || typeof value !== 'object') return false;
+  const { row, column, player } = value as Record<string, unknown>;
+  return Number.isInteger(row) && Number.isInteger(column) && (player === 1 || player === 2);
+};
+
+// The saved move list, or null when any entry is unusable: a partial list
+// would replay a game that never happened
+const decodeMoves = (value: unknown): Move[] | null => {
+  if (!Array.isArray(value) || !value.every(isMove)) return null;
+  return value.map(({ row, column, player }) => ({ row, column, player }));
+};
+
+// Bring a parsed save up to the current version. Returns null for saves
+// from a newer build, versions with no migration path, or shapes too
+// broken to restore.
+export const migrateGameState = (raw: unknown): StoredGameState | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  let data = raw as SavedData;
+  let version = typeof data.version === 'number' ? data.version : 1;
+  if (version > STORED_STATE_VERSION) return null;
+  while (version < STORED_STATE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    data = migrate(data);
+    version++;
+  }
+  if (!Array.isArray(data.board) || typeof data.currentTurn !== 'number' || typeof data.status !== 'string') {
+    return null;
+  }
+  const moves = decodeMoves(data.moves);
+  if (!moves) return null;
+  let gameState: GameState;
   try {
-    const storage = getStorage();
-    storage.setItem(STORAGE_KEYS.GAME_STATE, JSON.stringify(gameState));
-    storage.setItem(STORAGE_KEYS.LAST_UPDATED, Date.now().toString());
+    gameState = decodeGameState(data);
   } catch (error) {
-    // ignore storage save errors
+    if (error instanceof ProtocolError) return null;
+    throw error;
   }
+  return {
+    ...gameState,
+    version,
+    moves,
+    ...(typeof data.startedAt === 'number' ? { startedAt: data.startedAt } : {}),
+  };
 };
 
-// Load game state from session storage
+// Save game state to session storage
+export const saveGameState = (gameState: StoredGameState): void => {
+  write(store => {
+    store.setItem(STORAGE_KEYS.GAME_STATE, JSON.stringify({ ...gameState, version: STORED_STATE_VERSION }));
+    store.setItem(STORAGE_KEYS.LAST_UPDATED, Date.now().toString());
+  });
+};
+
+// Load game state from session storage; unreadable saves are discarded
 export const loadGameState = (): StoredGameState | null => {
+  const stored = read(STORAGE_KEYS.GAME_STATE);
+  if (!stored) return null;
+  let gameState: StoredGameState | null = null;
   try {
-    const storage = getStorage();
-    const stored = storage.getItem(STORAGE_KEYS.GAME_STATE);
-    if (stored) {
-      const gameState = JSON.parse(stored);
-      return gameState;
-    }
+    gameState = migrateGameState(JSON.parse(stored));
   } catch (error) {
-    // ignore load errors
+    // not JSON; discarded below
   }
-  return null;
+  if (!gameState) clearGameState();
+  return gameState;
 };
 
 // Save username to session storage
 export const saveUsername = (username: string): void => {
-  try {
-    const storage = getStorage();
-    storage.setItem(STORAGE_KEYS.USERNAME, username);
+  write(store => {
+    store.setItem(STORAGE_KEYS.USERNAME, username);
     // Update last-updated timestamp so stored data is considered valid
-    storage.setItem(STORAGE_KEYS.LAST_UPDATED, Date.now().toString());
-  } catch (error) {
-    // ignore
-  }
+    store.setItem(STORAGE_KEYS.LAST_UPDATED, Date.now().toString());
+  });
 };
 
 // Load username from session storage
 export const loadUsername = (): string | null => {
+  // Only return stored username if stored data is still considered valid
+  if (!isStoredDataValid()) return null;
+  return read(STORAGE_KEYS.USERNAME);
+};
+
+// Save game mode to session storage
+export const saveGameMode = (gameMode: GameMode): void => {
+  write(store => {
+    store.setItem(STORAGE_KEYS.GAME_MODE, gameMode);
+    // Update last-updated timestamp so stored data is considered valid
+    store.setItem(STORAGE_KEYS.LAST_UPDATED, Date.now().toString());
+  });
+};
+
+// Load game mode from session storage
+export const loadGameMode = (): GameMode | null => {
+  const mode = read(STORAGE_KEYS.GAME_MODE);
+  if (mode === 'friend' || mode === 'computer' || mode === 'local' || mode === 'ai') {
+    return mode;
+  }
+  return null;
+};
+
+// Save offline AI difficulty to session storage
+export const saveAiDifficulty = (difficulty: AiDifficulty): void => {
+  write(store => store.setItem(STORAGE_KEYS.AI_DIFFICULTY, difficulty));
+};
+
+// Load offline AI difficulty from session storage
+export const loadAiDifficulty = (): AiDifficulty | null => {
+  const difficulty = read(STORAGE_KEYS.AI_DIFFICULTY);
+  if (difficulty === 'easy' || difficulty === 'medium' || difficulty === 'hard' || difficulty === 'perfect') {
+    return difficulty;
+  }
+  return null;
+};
+
+// Save the board animation speed preference
+export const saveAnimationSpeed = (speed: AnimationSpeed): void => {
+  write(store => store.setItem(STORAGE_KEYS.ANIMATION_SPEED, speed));
+};
+
+// Load the board animation speed preference
+export const loadAnimationSpeed = (): AnimationSpeed | null => {
+  const speed = read(STORAGE_KEYS.ANIMATION_SPEED);
+  if (speed === 'off' || speed === 'fast' || speed === 'normal' || speed === 'slow') {
+    return speed;
+  }
+  return null;
+};
+
+// Save the time control used for the next online game (null for no clock)
+export const saveTimeControl = (timeControl: TimeControl | null): void => {
+  write(store => {
+    if (timeControl) {
+      store.setItem(STORAGE_KEYS.TIME_CONTROL, JSON.stringify(timeControl));
+    } else {
+      store.removeItem(STORAGE_KEYS.TIME_CONTROL);
+    }
+  });
+};
+
+// Load the chosen time control from session storage
+export const loadTimeControl = (): TimeControl | null => {
+  const stored = read(STORAGE_KEYS.TIME_CONTROL);
+  if (!stored) return null;
   try {
-    const storage = getStorage();
-    // Only return stored username if stored data is still considered valid
-    if (!isStoredDataValid()) return null;
-    return storage.getItem(STORAGE_KEYS.USERNAME);
+    return decodeTimeControl(JSON.parse(stored)) ?? null;
   } catch (error) {
-    // ignore
     return null;
   }
 };
 
-// Save game mode to session storage
-export const saveGameMode = (gameMode: 'friend' | 'computer'): void => {
+// Save the private room this tab is in, so a reload rejoins it
+export const saveRoom = (room: RoomRequest): void => {
+  write(store => store.setItem(STORAGE_KEYS.ROOM, JSON.stringify(room)));
+};
+
+// Load the private room from session storage
+export const loadRoom = (): RoomRequest | null => {
+  const stored = read(STORAGE_KEYS.ROOM);
+  if (!stored) return null;
   try {
-    const storage = getStorage();
-    storage.setItem(STORAGE_KEYS.GAME_MODE, gameMode);
-    // Update last-updated timestamp so stored data is considered valid
-    storage.setItem(STORAGE_KEYS.LAST_UPDATED, Date.now().toString());
+    const room = JSON.parse(stored);
+    if (room?.action === 'create') return { action: 'create' };
+    if (room?.action === 'join' && typeof room.code === 'string') {
+      return typeof room.opponent === 'string'
+        ? { action: 'join', code: room.code, opponent: room.opponent }
+        : { action: 'join', code: room.code };
+    }
   } catch (error) {
-    // ignore
+    // fall through and treat as no room
   }
+  return null;
 };
 
-// Load game mode from session storage
-export const loadGameMode = (): 'friend' | 'computer' | null => {
+// Clear the private room (back to public matchmaking)
+export const clearRoom = (): void => {
+  write(store => store.removeItem(STORAGE_KEYS.ROOM));
+};
+
+// Save the signed-in session, token included
+export const saveSession = (session: AuthSession): void => {
+  write(store => store.setItem(STORAGE_KEYS.SESSION, JSON.stringify(session)));
+};
+
+// Load the saved session; malformed ones are dropped. Expired sessions are
+// returned so the session module can say why the player was signed out.
+export const loadSession = (): AuthSession | null => {
+  const stored = read(STORAGE_KEYS.SESSION);
+  if (!stored) return null;
   try {
-    const storage = getStorage();
-    const mode = storage.getItem(STORAGE_KEYS.GAME_MODE);
-    if (mode === 'friend' || mode === 'computer') {
-      return mode;
-    }
-    return null;
+    const session = JSON.parse(stored);
+    const { username, guest, token, expiresAt } = session ?? {};
+    const valid = typeof username === 'string'
+      && typeof guest === 'boolean'
+      && (token === null || typeof token === 'string')
+      && (expiresAt === null || typeof expiresAt === 'number');
+    if (valid) return { username, guest, token, expiresAt };
   } catch (error) {
-    // ignore
-    return null;
+    // discarded below
   }
+  clearSession();
+  return null;
+};
+
+export const clearSession = (): void => {
+  write(store => store.removeItem(STORAGE_KEYS.SESSION));
+};
+
+// Clear everything saved in this tab, on logout
+export const clearUserData = (): void => {
+  write(store => Object.values(STORAGE_KEYS).forEach(key => store.removeItem(key)));
 };
 
 // Clear all game data from session storage
 export const clearGameData = (): void => {
-  try {
-    const storage = getStorage();
-    storage.removeItem(STORAGE_KEYS.GAME_STATE);
-    storage.removeItem(STORAGE_KEYS.USERNAME);
-    storage.removeItem(STORAGE_KEYS.GAME_MODE);
-    storage.removeItem(STORAGE_KEYS.LAST_UPDATED);
-  } catch (error) {
-    // ignore
-  }
+  write(store => {
+    store.removeItem(STORAGE_KEYS.GAME_STATE);
+    store.removeItem(STORAGE_KEYS.USERNAME);
+    store.removeItem(STORAGE_KEYS.GAME_MODE);
+    store.removeItem(STORAGE_KEYS.ROOM);
+    store.removeItem(STORAGE_KEYS.LAST_UPDATED);
+  });
 };
 
 // Clear only game state (keep username and mode)
 export const clearGameState = (): void => {
-  try {
-    const storage = getStorage();
-    storage.removeItem(STORAGE_KEYS.GAME_STATE);
-    storage.removeItem(STORAGE_KEYS.LAST_UPDATED);
-  } catch (error) {
-    // ignore
-  }
+  write(store => {
+    store.removeItem(STORAGE_KEYS.GAME_STATE);
+    store.removeItem(STORAGE_KEYS.LAST_UPDATED);
+  });
 };
 
 // Clear only game mode (keep username)
 export const clearGameMode = (): void => {
-  try {
-    const storage = getStorage();
-    storage.removeItem(STORAGE_KEYS.GAME_MODE);
-    storage.removeItem(STORAGE_KEYS.LAST_UPDATED);
-  } catch (error) {
-    // ignore
-  }
+  write(store => {
+    store.removeItem(STORAGE_KEYS.GAME_MODE);
+    store.removeItem(STORAGE_KEYS.LAST_UPDATED);
+  });
 };
 
 // Check if stored data is still valid (not too old - e.g., 24 hours)
 export const isStoredDataValid = (): boolean => {
-  try {
-    const storage = getStorage();
-    const lastUpdated = storage.getItem(STORAGE_KEYS.LAST_UPDATED);
-    if (!lastUpdated) return false;
-    
-    const timestamp = parseInt(lastUpdated, 10);
-    const now = Date.now();
-    const maxAge = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-    
-    return (now - timestamp) < maxAge;
-  } catch (error) {
-    return false;
-  }
-};
+  const lastUpdated = read(STORAGE_KEYS.LAST_UPDATED);
+  if (!lastUpdated) return false;
+
+  const timestamp = parseInt(lastUpdated, 10);
+  const now = Date.now();
+  const maxAge = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
 
+  return (now - timestamp) < maxAge;
+};
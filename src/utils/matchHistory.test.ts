@@ -0,0 +1,113 @@
+import { createMatchEntry } from './matchHistory';
+import { GameRecord } from '../types';
+
+const record = (patch: Partial<GameRecord> = {}): GameRecord => ({
+  player1: { id: '1', username: 'amy' },
+  player2: { id: '2', username: 'bot', isBot: true },
+  moves: [{ row: 5, column: 3, player: 1 }],
+  rows: 6,
+  columns: 7,
+  result: { winner: 'amy', isDraw: false, botWon: false },
+  ...patch,
+});
+
+// Fresh module per test: the chosen store is cached for the page's life
+const loadHistory = () => {
+  let modules!: { history: typeof import('./matchHistory'); errors: typeof import('./storageErrors') };
+  jest.isolateModules(() => {
+    modules = { history: require('./matchHistory'), errors: require('./storageErrors') };
+  });
+  return modules;
+};
+
+const setIndexedDb = (value: unknown) => {
+  Object.defineProperty(window, 'indexedDB', { configurable: true, writable: true, value });
+};
+
+describe('match entries', () => {
+  test('records the outcome from the given player\'s side', () => {
+    const entry = createMatchEntry('amy', record(), 1000, 61000);
+    expect(entry).toMatchObject({ username: 'amy', opponent: 'bot', opponentIsBot: true, outcome: 'win', durationMs: 60000 });
+    expect(createMatchEntry('bot', record(), 0)?.outcome).toBe('loss');
+    expect(createMatchEntry('amy', record({ result: { winner: null, isDraw: true, botWon: false } }), 0)?.outcome)
+      .toBe('draw');
+  });
+
+  test('skips unfinished games and games the player was not in', () => {
+    expect(createMatchEntry('amy', record({ result: undefined }), 0)).toBeNull();
+    expect(createMatchEntry('cat', record(), 0)).toBeNull();
+    expect(createMatchEntry('amy', record({ player2: undefined }), 0)).toBeNull();
+  });
+});
+
+describe('match archive', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setIndexedDb(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('lists only the current player\'s games, newest first', async () => {
+    const { history } = loadHistory();
+    await history.addMatch(createMatchEntry('amy', record(), 0, 1000)!);
+    await history.addMatch(createMatchEntry('amy', record(), 0, 3000)!);
+    await history.addMatch(createMatchEntry('bot', record(), 0, 2000)!);
+
+    const games = await history.listMatches('amy');
+    expect(games.map(game => game.playedAt)).toEqual([3000, 1000]);
+    expect(await history.listMatches('cat')).toEqual([]);
+  });
+
+  test('clears one player\'s games and leaves the rest', async () => {
+    const { history } = loadHistory();
+    await history.addMatch(createMatchEntry('amy', record(), 0, 1000)!);
+    await history.addMatch(createMatchEntry('bot', record(), 0, 2000)!);
+
+    await history.clearMatches('amy');
+    expect(await history.listMatches('amy')).toEqual([]);
+    expect(await history.listMatches('bot')).toHaveLength(1);
+  });
+
+  test('falls back to localStorage when IndexedDB cannot be opened', async () => {
+    setIndexedDb({
+      open: () => {
+        const request: { onerror?: () => void; error: Error } = { error: new Error('blocked') };
+        setTimeout(() => request.onerror?.(), 0);
+        return request;
+      },
+    });
+    const { history } = loadHistory();
+    await history.addMatch(createMatchEntry('amy', record(), 0, 1000)!);
+    expect(JSON.parse(localStorage.getItem('connect4_matchHistory') ?? '[]')).toHaveLength(1);
+    expect(await history.listMatches('amy')).toHaveLength(1);
+  });
+
+  test('skips stored entries that cannot be read back', async () => {
+    const { history } = loadHistory();
+    const good = createMatchEntry('amy', record(), 0, 1000)!;
+    localStorage.setItem('connect4_matchHistory', JSON.stringify([
+      good,
+      null,
+      { ...good, id: 'no-record', record: undefined },
+      { ...good, id: 'bad-moves', record: { ...good.record, moves: [null] } },
+      { ...good, id: 'bad-outcome', outcome: 'forfeit' },
+    ]));
+
+    expect((await history.listMatches('amy')).map(entry => entry.id)).toEqual([good.id]);
+  });
+
+  test('reports storage failures when clearing', async () => {
+    const { history, errors } = loadHistory();
+    const listener = jest.fn();
+    errors.addStorageErrorListener(listener);
+    jest.spyOn(Storage.prototype, 'removeItem').mockImplementation(() => {
+      throw new DOMException('denied', 'SecurityError');
+    });
+
+    await expect(history.clearMatches()).rejects.toBeInstanceOf(errors.StorageUnavailableError);
+    expect(listener).toHaveBeenCalledWith(expect.any(errors.StorageError));
+  });
+});
@@ -0,0 +1,256 @@
+// Durable archive of completed games. Stored in IndexedDB, falling back to
+// localStorage where IndexedDB is missing or cannot be opened.
+import { GameRecord, Move } from '../types';
+import { decodeGameResult, decodeMove, decodePlayer } from './protocol';
+import { classifyStorageError, notifyError } from './storageErrors';
+
+export type MatchOutcome = 'win' | 'loss' | 'draw';
+
+export interface MatchHistoryEntry {
+  id: string;
+  // Player whose point of view the outcome is recorded from
+  username: string;
+  opponent: string;
+  opponentIsBot: boolean;
+  outcome: MatchOutcome;
+  record: GameRecord;
+  playedAt: number;
+  durationMs: number;
+}
+
+const DB_NAME = 'connect4';
+const DB_VERSION = 1;
+const STORE_NAME = 'matches';
+const FALLBACK_KEY = 'connect4_matchHistory';
+// The fallback shares localStorage's small quota, so only recent games are kept
+const FALLBACK_LIMIT = 200;
+
+interface MatchStore {
+  // Raw stored entries; listMatches decodes them
+  getAll: () => Promise<unknown[]>;
+  put: (entry: MatchHistoryEntry) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' }).createIndex('playedAt', 'playedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Match history database is blocked'));
+  });
+
+const MATCH_OUTCOMES: MatchOutcome[] = ['win', 'loss', 'draw'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const decodeRecord = (value: unknown): GameRecord | null => {
+  if (!isObject(value) || !Array.isArray(value.moves) || !isCount(value.rows) || !isCount(value.columns)) {
+    return null;
+  }
+  const moves = value.moves.map(decodeMove);
+  if (!moves.every((move): move is Move => move !== undefined)) return null;
+  return {
+    player1: decodePlayer(value.player1),
+    player2: decodePlayer(value.player2),
+    moves,
+    rows: value.rows,
+    columns: value.columns,
+    result: isObject(value.result) ? decodeGameResult(value.result) : undefined,
+    incomplete: value.incomplete === true ? true : undefined,
+  };
+};
+
+// Either store may hold entries from older builds or edited by hand, so
+// everything read back is checked before the history list renders it
+const decodeMatchEntry = (value: unknown): MatchHistoryEntry | null => {
+  if (!isObject(value)) return null;
+  const { id, username, opponent, outcome, playedAt, durationMs } = value;
+  const record = decodeRecord(value.record);
+  const knownOutcome = MATCH_OUTCOMES.find(known => known === outcome);
+  if (
+    typeof id !== 'string' || typeof username !== 'string' || typeof opponent !== 'string' ||
+    !knownOutcome || !record || typeof playedAt !== 'number' || typeof durationMs !== 'number'
+  ) {
+    return null;
+  }
+  return {
+    id,
+    username,
+    opponent,
+    opponentIsBot: value.opponentIsBot === true,
+    outcome: knownOutcome,
+    record,
+    playedAt,
+    durationMs,
+  };
+};
+
+const decodeEntries = (values: unknown[]): MatchHistoryEntry[] =>
+  values.map(decodeMatchEntry).filter((entry): entry is MatchHistoryEntry => entry !== null);
+
+const createIndexedDbStore = (db: IDBDatabase): MatchStore => {
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  return {
+    getAll: () => requestToPromise(store('readonly').getAll()),
+    put: async (entry) => {
+      await requestToPromise(store('readwrite').put(entry));
+    },
+    remove: async (id) => {
+      await requestToPromise(store('readwrite').delete(id));
+    },
+    clear: async () => {
+      await requestToPromise(store('readwrite').clear());
+    },
+  };
+};
+
+const createLocalStorageStore = (): MatchStore => {
+  const read = (): unknown[] => {
+    try {
+      const stored = localStorage.getItem(FALLBACK_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      return [];
+    }
+  };
+  // Every change reports storage failures the same way
+  const change = (action: () => void) => {
+    try {
+      action();
+    } catch (error) {
+      const storageError = classifyStorageError(error);
+      notifyError(storageError);
+      throw storageError;
+    }
+  };
+  const write = (entries: MatchHistoryEntry[]) => {
+    change(() => localStorage.setItem(FALLBACK_KEY, JSON.stringify(entries)));
+  };
+  return {
+    getAll: async () => read(),
+    put: async (entry) => {
+      // Unreadable entries are dropped rather than kept forever
+      const entries = decodeEntries(read()).filter(e => e.id !== entry.id);
+      entries.push(entry);
+      entries.sort((a, b) => b.playedAt - a.playedAt);
+      write(entries.slice(0, FALLBACK_LIMIT));
+    },
+    remove: async (id) => {
+      write(decodeEntries(read()).filter(e => e.id !== id));
+    },
+    clear: async () => {
+      change(() => localStorage.removeItem(FALLBACK_KEY));
+    },
+  };
+};
+
+let storePromise: Promise<MatchStore> | null = null;
+
+const getStore = (): Promise<MatchStore> => {
+  if (!storePromise) {
+    storePromise = typeof indexedDB === 'undefined'
+      ? Promise.resolve(createLocalStorageStore())
+      : openDatabase().then(createIndexedDbStore, () => createLocalStorageStore());
+  }
+  return storePromise;
+};
+
+// Change notifications so open history panels refresh after a game ends
+type ChangeCallback = () => void;
+const changeListeners: ChangeCallback[] = [];
+
+export const addMatchHistoryListener = (callback: ChangeCallback) => {
+  changeListeners.push(callback);
+};
+
+export const removeMatchHistoryListener = (callback: ChangeCallback) => {
+  const index = changeListeners.indexOf(callback);
+  if (index > -1) {
+    changeListeners.splice(index, 1);
+  }
+};
+
+const notifyChange = () => {
+  changeListeners.forEach(listener => listener());
+};
+
+export const createMatchId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Archive entry for a finished game seen by username, or null if the record
+// has no result or the user did not play in it
+export const createMatchEntry = (
+  username: string,
+  record: GameRecord,
+  startedAt: number,
+  endedAt: number = Date.now()
+): MatchHistoryEntry | null => {
+  const { player1, player2, result } = record;
+  if (!result || !player1 || !player2) return null;
+  const me = player1.username === username ? player1 : player2.username === username ? player2 : null;
+  if (!me) return null;
+  const opponent = me === player1 ? player2 : player1;
+  return {
+    id: createMatchId(),
+    username,
+    opponent: opponent.username,
+    opponentIsBot: opponent.isBot === true,
+    outcome: result.isDraw ? 'draw' : result.winner === username ? 'win' : 'loss',
+    record,
+    playedAt: endedAt,
+    durationMs: Math.max(0, endedAt - startedAt),
+  };
+};
+
+export const addMatch = async (entry: MatchHistoryEntry): Promise<void> => {
+  const store = await getStore();
+  await store.put(entry);
+  notifyChange();
+};
+
+// Games recorded from username's point of view, newest first. Everyone who
+// played in this browser shares the archive.
+export const listMatches = async (username: string): Promise<MatchHistoryEntry[]> => {
+  const store = await getStore();
+  const entries = decodeEntries(await store.getAll());
+  return entries
+    .filter(entry => entry.username === username)
+    .sort((a, b) => b.playedAt - a.playedAt);
+};
+
+export const deleteMatch = async (id: string): Promise<void> => {
+  const store = await getStore();
+  await store.remove(id);
+  notifyChange();
+};
+
+// Deletes username's games, or every game on this device without a username
+export const clearMatches = async (username?: string): Promise<void> => {
+  const store = await getStore();
+  if (username === undefined) {
+    await store.clear();
+  } else {
+    const entries = decodeEntries(await store.getAll());
+    await Promise.all(entries.filter(entry => entry.username === username).map(entry => store.remove(entry.id)));
+  }
+  notifyChange();
+};
@@ -0,0 +1,122 @@
+import {
+  NotationError,
+  buildReplayUrl,
+  exportGameJson,
+  importGame,
+  parseGame,
+  parseReplayHash,
+  serializeGame,
+} from './notation';
+import { GameRecord } from '../types';
+
+// Vertical win for alice in column 4 while bob stacks column 5
+const aliceWins: GameRecord = {
+  player1: { id: 'alice', username: 'alice', isBot: false },
+  player2: { id: 'Smart Bot', username: 'Smart Bot', isBot: true },
+  moves: [
+    { row: 5, column: 3, player: 1 },
+    { row: 5, column: 4, player: 2 },
+    { row: 4, column: 3, player: 1 },
+    { row: 4, column: 4, player: 2 },
+    { row: 3, column: 3, player: 1 },
+    { row: 3, column: 4, player: 2 },
+    { row: 2, column: 3, player: 1 },
+  ],
+  rows: 6,
+  columns: 7,
+  result: { winner: 'alice', isDraw: false, botWon: false },
+};
+
+describe('serializeGame / parseGame', () => {
+  test('writes the compact form', () => {
+    expect(serializeGame(aliceWins)).toBe('C4;v=1;size=7x6;p1=alice;p2=Smart%20Bot;b2=1;res=1;moves=4545454');
+  });
+
+  test('round-trips a finished game', () => {
+    expect(parseGame(serializeGame(aliceWins))).toEqual(aliceWins);
+  });
+
+  test('round-trips an unfinished game without players', () => {
+    const record: GameRecord = { moves: aliceWins.moves.slice(0, 3), rows: 6, columns: 7 };
+    expect(parseGame(serializeGame(record))).toEqual({ ...record, player1: undefined, player2: undefined, result: undefined });
+  });
+
+  test('round-trips a win whose winner name matches neither player', () => {
+    const botWins: GameRecord = {
+      ...aliceWins,
+      player1: { id: 'Smart Bot', username: 'Smart Bot', isBot: true },
+      player2: { id: 'alice', username: 'alice', isBot: false },
+      result: { winner: 'Bot', isDraw: false, botWon: true },
+    };
+    expect(serializeGame(botWins)).toContain('res=1');
+    expect(parseGame(serializeGame(botWins)).result?.winner).toBe('Smart Bot');
+
+    const unnamed: GameRecord = { ...aliceWins, player1: undefined, player2: undefined };
+    expect(parseGame(serializeGame(unnamed)).moves).toEqual(aliceWins.moves);
+  });
+});
+
+describe('validation', () => {
+  const expectError = (text: string, message: RegExp) => {
+    expect(() => parseGame(text)).toThrow(NotationError);
+    expect(() => parseGame(text)).toThrow(message);
+  };
+
+  test('rejects text that is not notation', () => {
+    expectError('hello', /Not a Connect 4 game/);
+    expectError('C4;v=2;size=7x6;moves=1', /Unsupported notation version/);
+    expectError('C4;v=1;moves=1', /board size/);
+  });
+
+  test('rejects a move into a full column', () => {
+    expectError('C4;v=1;size=7x6;res=*;moves=1111111', /Move 7 \(column 1\) is illegal/);
+  });
+
+  test('rejects columns off the board', () => {
+    expectError('C4;v=1;size=7x6;res=*;moves=18', /Move 2 \(column 8\) is outside/);
+    expectError('C4;v=1;size=7x6;res=*;moves=1!', /Move 2 has an invalid column/);
+  });
+
+  test('rejects moves after the game was won', () => {
+    expectError('C4;v=1;size=7x6;res=1;moves=45454541', /Move 8 \(column 1\) was played after the game was already won/);
+  });
+
+  test('rejects a result that contradicts the board', () => {
+    expectError('C4;v=1;size=7x6;res=2;moves=4545454', /player 1 connected four/);
+    expectError('C4;v=1;size=7x6;res=D;moves=45', /draw but the board is not full/);
+  });
+
+  test('accepts a win without four in a row (forfeit)', () => {
+    expect(parseGame('C4;v=1;size=7x6;p1=a;p2=b;res=2;moves=45').result?.winner).toBe('b');
+  });
+});
+
+describe('import and share links', () => {
+  test('imports a JSON export', () => {
+    expect(importGame(exportGameJson(aliceWins))).toEqual(aliceWins);
+  });
+
+  test('rejects unrelated JSON', () => {
+    expect(() => importGame('{"foo": 1}')).toThrow(/not a Connect 4 game export/);
+    expect(() => importGame('{oops')).toThrow(/not valid JSON/);
+    expect(() => importGame('null')).toThrow(NotationError);
+  });
+
+  test('builds and reads a replay link', () => {
+    const url = buildReplayUrl(aliceWins);
+    const hash = url.slice(url.indexOf('#'));
+    expect(parseReplayHash(hash)).toEqual(aliceWins);
+    expect(importGame(url)).toEqual(aliceWins);
+  });
+
+  test('ignores hashes that are not replay links', () => {
+    expect(parseReplayHash('#room=abc')).toBeNull();
+  });
+
+  test('rejects pasted links and JSON exports holding bad notation', () => {
+    expect(() => importGame('https://example.com/#replay=C4%3Bv%3D1%3Bsize%3D7x6%3Bres%3DX%3Bmoves%3D4'))
+      .toThrow(/Unknown result "X"/);
+    expect(() => importGame('#replay=%E0')).toThrow(NotationError);
+    expect(() => importGame(JSON.stringify({ format: 'connect4-game', notation: 42 }))).toThrow(NotationError);
+  });
+});
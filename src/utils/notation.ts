@@ -0,0 +1,228 @@
+// Compact game notation for sharing and archiving Connect 4 games.
+//
+//   C4;v=1;size=7x6;p1=alice;p2=bob;b2=1;res=1;moves=4453326
+//
+// Fields are ';'-separated key=value pairs after the "C4" tag. Player names
+// are URI-encoded, b1/b2 mark bots, res is 1, 2, D (draw) or * (unfinished),
+// and moves lists the 1-based column of each move in base 36, player 1 first.
+import { GameRecord, GameResult, Move, Player } from '../types';
+import { applyMove, buildBoardHistory, findWinningLine, isBoardFull } from './gameRules';
+
+export const NOTATION_TAG = 'C4';
+export const NOTATION_VERSION = 1;
+export const REPLAY_HASH_PREFIX = '#replay=';
+const JSON_FORMAT = 'connect4-game';
+
+export class NotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotationError';
+  }
+}
+
+type ResultCode = '1' | '2' | 'D' | '*';
+
+const RESULT_CODES: ResultCode[] = ['1', '2', 'D', '*'];
+
+const isResultCode = (value: string): value is ResultCode =>
+  RESULT_CODES.some(code => code === value);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const resultCode = (record: GameRecord): ResultCode => {
+  const { result } = record;
+  if (!result) return '*';
+  if (result.isDraw) return 'D';
+  if (result.winner && result.winner === record.player1?.username) return '1';
+  if (result.winner && result.winner === record.player2?.username) return '2';
+  // Bots, guests renamed mid-game and records without names: the board
+  // still says whose four it was
+  const history = buildBoardHistory(record.moves, record.rows, record.columns);
+  const line = findWinningLine(history[history.length - 1]);
+  if (line) return line.player === 1 ? '1' : '2';
+  return '*';
+};
+
+export const serializeGame = (record: GameRecord): string => {
+  if (record.columns > 36) {
+    throw new NotationError('Boards wider than 36 columns cannot be written as notation');
+  }
+  const fields = [
+    NOTATION_TAG,
+    `v=${NOTATION_VERSION}`,
+    `size=${record.columns}x${record.rows}`,
+  ];
+  if (record.player1) fields.push(`p1=${encodeURIComponent(record.player1.username)}`);
+  if (record.player2) fields.push(`p2=${encodeURIComponent(record.player2.username)}`);
+  if (record.player1?.isBot) fields.push('b1=1');
+  if (record.player2?.isBot) fields.push('b2=1');
+  fields.push(`res=${resultCode(record)}`);
+  fields.push(`moves=${record.moves.map(m => (m.column + 1).toString(36)).join('')}`);
+  return fields.join(';');
+};
+
+// Notation carries names only, so the username doubles as the player id
+const parsePlayer = (name: string | undefined, bot: string | undefined, seat: number): Player | undefined => {
+  if (name === undefined) return undefined;
+  let username: string;
+  try {
+    username = decodeURIComponent(name);
+  } catch (error) {
+    throw new NotationError(`Player ${seat} name is not validly encoded`);
+  }
+  if (!username) throw new NotationError(`Player ${seat} name is empty`);
+  return { id: username, username, isBot: bot === '1' };
+};
+
+// Replay the columns move by move, rejecting anything the rules would not allow
+export const validateMoves = (
+  columns: number[],
+  rows: number,
+  width: number
+): { moves: Move[]; board: number[][] } => {
+  let board: number[][] = Array(rows).fill(null).map(() => Array(width).fill(0));
+  const moves: Move[] = [];
+  columns.forEach((column, index) => {
+    const label = `Move ${index + 1} (column ${column + 1})`;
+    if (findWinningLine(board)) {
+      throw new NotationError(`${label} was played after the game was already won`);
+    }
+    if (column < 0 || column >= width) {
+      throw new NotationError(`${label} is outside the ${width}-column board`);
+    }
+    const player = index % 2 === 0 ? 1 : 2;
+    const result = applyMove(board, column, player);
+    if (!result) {
+      throw new NotationError(`${label} is illegal: the column is already full`);
+    }
+    board = result.board;
+    moves.push({ row: result.row, column, player });
+  });
+  return { moves, board };
+};
+
+// Check the recorded result against the final position where it is decidable.
+// Wins without four in a row are allowed (forfeits and timeouts).
+const checkResult = (code: ResultCode, board: number[][]) => {
+  const line = findWinningLine(board);
+  if (line && code !== String(line.player)) {
+    throw new NotationError(`Result "${code}" does not match the final position: player ${line.player} connected four`);
+  }
+  if (!line && isBoardFull(board) && code !== 'D') {
+    throw new NotationError(`Result "${code}" does not match the final position: the board is full with no winner`);
+  }
+  if (code === 'D' && !isBoardFull(board)) {
+    throw new NotationError('Result is a draw but the board is not full');
+  }
+};
+
+export const parseGame = (text: string): GameRecord => {
+  const parts = text.trim().split(';');
+  if (parts[0] !== NOTATION_TAG) {
+    throw new NotationError(`Not a Connect 4 game: expected it to start with "${NOTATION_TAG};"`);
+  }
+
+  const fields: Record<string, string> = {};
+  parts.slice(1).forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq <= 0) throw new NotationError(`Malformed field "${part}"`);
+    fields[part.slice(0, eq)] = part.slice(eq + 1);
+  });
+
+  const version = Number(fields.v);
+  if (version !== NOTATION_VERSION) {
+    throw new NotationError(`Unsupported notation version "${fields.v ?? ''}"`);
+  }
+
+  const size = /^(\d+)x(\d+)$/.exec(fields.size ?? '');
+  if (!size) throw new NotationError('Missing or malformed board size');
+  const width = Number(size[1]);
+  const rows = Number(size[2]);
+  if (width < 4 || rows < 4 || width > 36 || rows > 36) {
+    throw new NotationError(`Unsupported board size ${width}x${rows}`);
+  }
+
+  if (fields.moves === undefined) throw new NotationError('Missing move list');
+  const columns = fields.moves.split('').map((char, index) => {
+    const value = parseInt(char, 36);
+    if (Number.isNaN(value) || value === 0) {
+      throw new NotationError(`Move ${index + 1} has an invalid column "${char}"`);
+    }
+    return value - 1;
+  });
+  const { moves, board } = validateMoves(columns, rows, width);
+
+  const code = fields.res ?? '*';
+  if (!isResultCode(code)) {
+    throw new NotationError(`Unknown result "${fields.res}"`);
+  }
+  checkResult(code, board);
+
+  const player1 = parsePlayer(fields.p1, fields.b1, 1);
+  const player2 = parsePlayer(fields.p2, fields.b2, 2);
+  let result: GameResult | undefined;
+  if (code === 'D') {
+    result = { winner: null, isDraw: true, botWon: false };
+  } else if (code !== '*') {
+    const winner = code === '1' ? player1 : player2;
+    result = { winner: winner?.username ?? `Player ${code}`, isDraw: false, botWon: winner?.isBot === true };
+  }
+
+  return { player1, player2, moves, rows, columns: width, result };
+};
+
+export const exportGameJson = (record: GameRecord): string =>
+  JSON.stringify({
+    format: JSON_FORMAT,
+    version: NOTATION_VERSION,
+    notation: serializeGame(record),
+    player1: record.player1?.username ?? null,
+    player2: record.player2?.username ?? null,
+    result: record.result ?? null,
+    moves: record.moves,
+  }, null, 2);
+
+// Accepts either a JSON export or bare notation. The notation is the source
+// of truth for JSON files; the other fields are for human readers.
+export const importGame = (text: string): GameRecord => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new NotationError('Nothing to import');
+  // Pasted share links carry the game in their hash
+  const hashStart = trimmed.indexOf(REPLAY_HASH_PREFIX);
+  if (hashStart !== -1) {
+    const linked = parseReplayHash(trimmed.slice(hashStart));
+    if (!linked) throw new NotationError('Replay link has no game in it');
+    return linked;
+  }
+  if (!trimmed.startsWith('{')) return parseGame(trimmed);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed);
+  } catch (error) {
+    throw new NotationError('File is not valid JSON');
+  }
+  const file = isObject(data) ? data : {};
+  if (file.format !== JSON_FORMAT || typeof file.notation !== 'string') {
+    throw new NotationError('JSON file is not a Connect 4 game export');
+  }
+  return parseGame(file.notation);
+};
+
+export const buildReplayUrl = (record: GameRecord): string => {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${REPLAY_HASH_PREFIX}${encodeURIComponent(serializeGame(record))}`;
+};
+
+// Game encoded in a location hash, or null when the hash is not a replay link
+export const parseReplayHash = (hash: string): GameRecord | null => {
+  if (!hash.startsWith(REPLAY_HASH_PREFIX)) return null;
+  let notation: string;
+  try {
+    notation = decodeURIComponent(hash.slice(REPLAY_HASH_PREFIX.length));
+  } catch (error) {
+    throw new NotationError('Replay link is not validly encoded');
+  }
+  return parseGame(notation);
+};
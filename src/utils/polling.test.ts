@@ -0,0 +1,74 @@
+import { createPoller, nextPollDelay } from './polling';
+
+const setVisibility = (state: DocumentVisibilityState) => {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => state });
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+// Let the poll's promise chain settle under fake timers
+const flush = async () => {
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+describe('polling', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    setVisibility('visible');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('backs off exponentially up to the cap', () => {
+    expect(nextPollDelay(1000, 8000, 0)).toBe(1000);
+    expect(nextPollDelay(1000, 8000, 2)).toBe(4000);
+    expect(nextPollDelay(1000, 8000, 10)).toBe(8000);
+  });
+
+  test('polls on the interval until stopped', async () => {
+    const poll = jest.fn().mockResolvedValue(undefined);
+    const poller = createPoller({ poll, intervalMs: 1000, maxIntervalMs: 8000 });
+    poller.start();
+    expect(poll).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+    jest.advanceTimersByTime(1000);
+    await flush();
+    expect(poll).toHaveBeenCalledTimes(2);
+
+    poller.stop();
+    jest.advanceTimersByTime(5000);
+    expect(poll).toHaveBeenCalledTimes(2);
+  });
+
+  test('waits longer after a failure', async () => {
+    const poll = jest.fn().mockRejectedValueOnce(new Error('down')).mockResolvedValue(undefined);
+    const poller = createPoller({ poll, intervalMs: 1000, maxIntervalMs: 8000 });
+    poller.start();
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+    jest.advanceTimersByTime(1000);
+    expect(poll).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1000);
+    expect(poll).toHaveBeenCalledTimes(2);
+    poller.stop();
+  });
+
+  test('pauses while hidden and catches up when shown', async () => {
+    const poll = jest.fn().mockResolvedValue(undefined);
+    const poller = createPoller({ poll, intervalMs: 1000, maxIntervalMs: 8000 });
+    poller.start();
+
+    setVisibility('hidden');
+    jest.advanceTimersByTime(10000);
+    expect(poll).not.toHaveBeenCalled();
+
+    setVisibility('visible');
+    expect(poll).toHaveBeenCalledTimes(1);
+    poller.stop();
+  });
+});
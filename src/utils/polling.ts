@@ -0,0 +1,77 @@
+// Fallback polling for when the server does not push updates: pauses while
+// the tab is hidden, catches up when it is shown and backs off on failures
+
+export interface PollerOptions {
+  poll: () => Promise<unknown>;
+  intervalMs: number;
+  maxIntervalMs: number;
+}
+
+export interface Poller {
+  start: () => void;
+  stop: () => void;
+}
+
+// Delay before the next poll after `failures` consecutive failed polls
+export const nextPollDelay = (intervalMs: number, maxIntervalMs: number, failures: number): number =>
+  Math.min(maxIntervalMs, intervalMs * 2 ** failures);
+
+const isHidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+// The first poll runs one interval after start(); callers load their data up front
+export const createPoller = ({ poll, intervalMs, maxIntervalMs }: PollerOptions): Poller => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let failures = 0;
+  let running = false;
+  let inFlight = false;
+
+  const clear = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const schedule = () => {
+    clear();
+    if (!running || isHidden()) return;
+    timer = setTimeout(run, nextPollDelay(intervalMs, maxIntervalMs, failures));
+  };
+
+  const run = async () => {
+    timer = null;
+    if (!running || inFlight) return;
+    inFlight = true;
+    try {
+      await poll();
+      failures = 0;
+    } catch (error) {
+      failures += 1;
+    } finally {
+      inFlight = false;
+      schedule();
+    }
+  };
+
+  const onVisibilityChange = () => {
+    if (isHidden()) {
+      clear();
+    } else if (running) {
+      clear();
+      run();
+    }
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      failures = 0;
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      schedule();
+    },
+    stop: () => {
+      running = false;
+      clear();
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    },
+  };
+};
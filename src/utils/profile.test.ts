@@ -0,0 +1,46 @@
+import { computeStreaks, decodePlayerProfile, decodeRecentGames, splitByOpponent } from './profile';
+import { GameOutcome, RecentGame } from '../types';
+
+const game = (outcome: GameOutcome, opponentIsBot = false): RecentGame => ({
+  gameId: `g-${Math.random()}`,
+  opponent: opponentIsBot ? 'Bot' : 'amy',
+  opponentIsBot,
+  outcome,
+  endedAt: null,
+});
+
+describe('profile streaks', () => {
+  test('counts the current run from the newest game', () => {
+    expect(computeStreaks(['win', 'win', 'loss', 'win', 'win', 'win', 'draw'].map(o => game(o as GameOutcome))))
+      .toEqual({ current: 2, best: 3 });
+  });
+
+  test('an unbroken run is both current and best', () => {
+    expect(computeStreaks([game('win'), game('win')])).toEqual({ current: 2, best: 2 });
+    expect(computeStreaks([])).toEqual({ current: 0, best: 0 });
+  });
+
+  test('splits results by bot and human opponents', () => {
+    const { vsBots, vsHumans } = splitByOpponent([game('win', true), game('loss', true), game('draw'), game('win')]);
+    expect(vsBots).toEqual({ wins: 1, losses: 1, draws: 0 });
+    expect(vsHumans).toEqual({ wins: 1, losses: 0, draws: 1 });
+  });
+});
+
+describe('profile decoding', () => {
+  test('keeps only well-formed games and parses dates', () => {
+    const games = decodeRecentGames([
+      { gameId: 'a', opponent: 'bob', outcome: 'win', endedAt: '2025-01-01T00:00:00Z' },
+      { opponent: 'bob', outcome: 'forfeit' },
+      'junk',
+    ]);
+    expect(games).toEqual([
+      { gameId: 'a', opponent: 'bob', opponentIsBot: false, outcome: 'win', endedAt: Date.UTC(2025, 0, 1) },
+    ]);
+  });
+
+  test('fills the win rate and leaves missing extras unset', () => {
+    const profile = decodePlayerProfile({ gamesPlayed: 4, gamesWon: 1 }, 'amy');
+    expect(profile).toEqual({ username: 'amy', gamesPlayed: 4, gamesWon: 1, winPercentage: 25 });
+  });
+});
@@ -0,0 +1,86 @@
+// Player profiles: decoding the profile endpoints and deriving streaks and
+// bot/human splits from recent games when the server does not send them
+import { GameOutcome, PlayerProfile, RecentGame, RecordSplit } from '../types';
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const count = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+
+const OUTCOMES: GameOutcome[] = ['win', 'loss', 'draw'];
+
+export const EMPTY_RECORD: RecordSplit = { wins: 0, losses: 0, draws: 0 };
+
+export const decodeRecord = (value: unknown): RecordSplit | undefined =>
+  isObject(value) ? { wins: count(value.wins), losses: count(value.losses), draws: count(value.draws) } : undefined;
+
+const decodeTimestamp = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+};
+
+export const decodeRecentGames = (value: unknown): RecentGame[] =>
+  (Array.isArray(value) ? value : []).flatMap((raw, index): RecentGame[] => {
+    if (!isObject(raw) || typeof raw.opponent !== 'string' || !OUTCOMES.includes(raw.outcome as GameOutcome)) {
+      return [];
+    }
+    return [{
+      gameId: typeof raw.gameId === 'string' ? raw.gameId : `game-${index}`,
+      opponent: raw.opponent,
+      opponentIsBot: raw.opponentIsBot === true,
+      outcome: raw.outcome as GameOutcome,
+      endedAt: decodeTimestamp(raw.endedAt),
+    }];
+  });
+
+export const decodePlayerProfile = (value: unknown, username: string): PlayerProfile => {
+  const raw = isObject(value) ? value : {};
+  const gamesPlayed = count(raw.gamesPlayed);
+  const gamesWon = count(raw.gamesWon);
+  const rate = raw.winPercentage;
+  return {
+    username: typeof raw.username === 'string' && raw.username ? raw.username : username,
+    gamesPlayed,
+    gamesWon,
+    winPercentage: typeof rate === 'number' && Number.isFinite(rate)
+      ? rate
+      : (gamesPlayed > 0 ? (gamesWon / gamesPlayed) * 100 : 0),
+    ...(raw.currentStreak !== undefined ? { currentStreak: count(raw.currentStreak) } : {}),
+    ...(raw.bestStreak !== undefined ? { bestStreak: count(raw.bestStreak) } : {}),
+    ...(decodeRecord(raw.vsBots) ? { vsBots: decodeRecord(raw.vsBots) } : {}),
+    ...(decodeRecord(raw.vsHumans) ? { vsHumans: decodeRecord(raw.vsHumans) } : {}),
+  };
+};
+
+// Win streaks over games listed newest first. Draws and losses both end a streak.
+export const computeStreaks = (games: RecentGame[]): { current: number; best: number } => {
+  const firstNonWin = games.findIndex(game => game.outcome !== 'win');
+  let best = 0;
+  let run = 0;
+  games.forEach(game => {
+    run = game.outcome === 'win' ? run + 1 : 0;
+    best = Math.max(best, run);
+  });
+  return { current: firstNonWin === -1 ? games.length : firstNonWin, best };
+};
+
+const tally = (games: RecentGame[]): RecordSplit => ({
+  wins: games.filter(game => game.outcome === 'win').length,
+  losses: games.filter(game => game.outcome === 'loss').length,
+  draws: games.filter(game => game.outcome === 'draw').length,
+});
+
+export const splitByOpponent = (games: RecentGame[]): { vsBots: RecordSplit; vsHumans: RecordSplit } => ({
+  vsBots: tally(games.filter(game => game.opponentIsBot)),
+  vsHumans: tally(games.filter(game => !game.opponentIsBot)),
+});
+
+export const formatRecord = ({ wins, losses, draws }: RecordSplit): string =>
+  `${wins}W · ${losses}L · ${draws}D`;
@@ -0,0 +1,84 @@
+import { ProtocolError, createEmptyBoard, decodeBoard, decodeGameState, decodeServerMessage } from './protocol';
+
+describe('game state decoding', () => {
+  test('accepts camelCase and PascalCase fields alike', () => {
+    const board = createEmptyBoard();
+    board[5][3] = 1;
+    const state = decodeGameState({
+      Board: board,
+      CurrentTurn: 2,
+      Status: 'in_progress',
+      Player1: { ID: 7, Username: 'amy' },
+      player2: { id: 'b', username: 'bob', isBot: true },
+      LastMove: { Row: 5, Column: 3, Player: 1 },
+    });
+    expect(state.board).toEqual(board);
+    expect(state.currentTurn).toBe(2);
+    expect(state.status).toBe('in_progress');
+    expect(state.player1).toEqual({ id: '7', username: 'amy', isBot: false });
+    expect(state.player2).toEqual({ id: 'b', username: 'bob', isBot: true });
+    expect(state.lastMove).toEqual({ row: 5, column: 3, player: 1 });
+  });
+
+  test('falls back to safe defaults for missing or unknown fields', () => {
+    const state = decodeGameState({ currentTurn: 3, status: 'paused', player1: { username: '' } });
+    expect(state.board).toEqual(createEmptyBoard());
+    expect(state.currentTurn).toBe(1);
+    expect(state.status).toBe('waiting');
+    expect(state.player1).toBeUndefined();
+    expect(state.lastMove).toBeUndefined();
+  });
+
+  test('rejects boards with ragged rows or unknown cells', () => {
+    expect(() => decodeBoard([[0, 1], [0]])).toThrow(ProtocolError);
+    expect(() => decodeBoard([[0, 3]])).toThrow(ProtocolError);
+    expect(() => decodeBoard([['0']])).toThrow(ProtocolError);
+  });
+
+  test('decodes a clock and clamps negative time', () => {
+    const state = decodeGameState({
+      clock: { timeControl: { type: 'total', minutes: 3, incrementSeconds: 2 }, remainingMs: [-50, 9000], serverTime: 100 },
+    });
+    expect(state.clock).toEqual({
+      timeControl: { type: 'total', minutes: 3, incrementSeconds: 2 },
+      remainingMs: [0, 9000],
+      serverTime: 100,
+    });
+  });
+
+  test('drops a clock with an invalid time control or timings', () => {
+    const remainingMs = [1000, 1000];
+    expect(decodeGameState({ clock: { timeControl: { type: 'perMove', seconds: 0 }, remainingMs, serverTime: 1 } }).clock)
+      .toBeUndefined();
+    expect(decodeGameState({ clock: { timeControl: { type: 'perMove', seconds: 10 }, remainingMs: [1], serverTime: 1 } }).clock)
+      .toBeUndefined();
+  });
+});
+
+describe('server message decoding', () => {
+  test('parses JSON frames and keeps the game id', () => {
+    const message = decodeServerMessage(JSON.stringify({ type: 'gameState', gameId: 'g1', payload: {} }));
+    expect(message.type).toBe('gameState');
+    expect(message).toHaveProperty('gameId', 'g1');
+  });
+
+  test('normalises payloads of known messages', () => {
+    expect(decodeServerMessage({ type: 'gameFinished', payload: { Winner: { username: 'amy' }, Reason: 'timeout' } }))
+      .toEqual({ type: 'gameFinished', payload: { winner: 'amy', isDraw: false, botWon: false, reason: 'timeout' } });
+    expect(decodeServerMessage({ type: 'roomError', payload: { code: 'gone', message: 'No such room' } }))
+      .toEqual({ type: 'roomError', payload: { code: 'unknown', roomCode: undefined, message: 'No such room' } });
+    expect(decodeServerMessage({ type: 'error', payload: 'Game not found' }))
+      .toEqual({ type: 'error', payload: { message: 'Game not found' } });
+  });
+
+  test('rejects malformed frames', () => {
+    expect(() => decodeServerMessage('{not json')).toThrow('Frame is not valid JSON');
+    expect(() => decodeServerMessage({ payload: {} })).toThrow('Frame has no message type');
+    expect(() => decodeServerMessage({ type: 'roomCreated', payload: {} })).toThrow(ProtocolError);
+    expect(() => decodeServerMessage({ type: 'emote', payload: { from: 'amy', emote: 'dance' } })).toThrow(ProtocolError);
+  });
+
+  test('rejects unknown message types', () => {
+    expect(() => decodeServerMessage({ type: 'teleport', payload: {} })).toThrow('Unknown message type: teleport');
+  });
+});
@@ -0,0 +1,447 @@
+// WebSocket protocol: message shapes exchanged with the game server,
+// runtime decoders for inbound frames and a typed send/subscribe channel
+import {
+  ActiveUser,
+  GameClock,
+  GameEndReason,
+  GameMode,
+  GameResult,
+  GameState,
+  GameStatus,
+  EmoteId,
+  Move,
+  OnlineGameMode,
+  Player,
+  TimeControl,
+} from '../types';
+
+export const BOARD_ROWS = 6;
+export const BOARD_COLUMNS = 7;
+
+// Client → Server messages
+export type ClientMessage =
+  | { type: 'join'; payload: { username: string; gameMode: OnlineGameMode; timeControl?: TimeControl } }
+  | { type: 'createRoom'; payload: { username: string; timeControl?: TimeControl } }
+  | { type: 'joinRoom'; payload: { username: string; roomCode: string } }
+  // Announces us in the lobby so other players can challenge us
+  | { type: 'lobby'; payload: { username: string } }
+  | { type: 'challenge'; payload: { to: string; timeControl?: TimeControl } }
+  | { type: 'cancelChallenge'; payload: { challengeId: string } }
+  | { type: 'challengeResponse'; payload: { challengeId: string; accept: boolean } }
+  | { type: 'move'; payload: { column: number } }
+  // Live presence and leaderboard pushes; the server answers with subscribed
+  | { type: 'subscribe'; payload: { topics: LiveTopic[] } }
+  | { type: 'unsubscribe'; payload: { topics: LiveTopic[] } }
+  | { type: 'leaveQueue'; payload: {} }
+  | { type: 'spectate'; payload: { username: string; gameId?: string; player: string } }
+  | { type: 'leaveSpectate'; payload: {} }
+  | { type: 'playAgain'; payload: {} }
+  | { type: 'rematchResponse'; payload: { accept: boolean } }
+  | { type: 'chat'; payload: { text: string } }
+  | { type: 'emote'; payload: { emote: EmoteId } }
+  | { type: 'exitGame'; payload: {} }
+  | { type: 'ping'; payload: { timestamp: number } };
+
+// Server → Client messages
+export type ServerMessage =
+  | { type: 'gameStart'; gameId?: string; payload: GameState }
+  | { type: 'gameState'; gameId?: string; payload: GameState }
+  | { type: 'gameFinished'; gameId?: string; payload: GameResult }
+  | { type: 'leaderboardUpdate'; gameId?: string; payload: { winner: string | null; isDraw: boolean } }
+  | { type: 'subscribed'; payload: { topics: LiveTopic[] } }
+  // users is a full snapshot when present; updated and left are changes since the last push
+  | { type: 'presence'; payload: { users?: ActiveUser[]; updated: ActiveUser[]; left: string[] } }
+  // botDeadline: server time (epoch ms) at which a bot takes the empty seat, null if none will
+  | { type: 'queueStatus'; payload: { botDeadline: number | null; serverTime?: number } }
+  // Rematch handshake. expiresAt is server time (epoch ms) when the offer lapses.
+  | { type: 'rematchPending'; payload: { expiresAt: number | null; serverTime?: number } }
+  | { type: 'rematchRequested'; payload: { from: string; expiresAt: number | null; serverTime?: number } }
+  | { type: 'rematchDeclined'; payload: { by: string | null } }
+  | { type: 'rematchTimeout'; payload: { message: string | null } }
+  | { type: 'opponentLeft'; payload: { username: string | null } }
+  | { type: 'spectatorCount'; gameId?: string; payload: { count: number } }
+  | { type: 'chat'; payload: { from: string; text: string; sentAt: number } }
+  | { type: 'emote'; payload: { from: string; emote: EmoteId } }
+  // Direct challenges. expiresAt is server time (epoch ms) when the offer lapses.
+  | { type: 'challengeSent'; payload: { challengeId: string; to: string; expiresAt: number | null; serverTime?: number } }
+  | {
+    type: 'challengeReceived';
+    payload: { challengeId: string; from: string; expiresAt: number | null; serverTime?: number; timeControl?: TimeControl };
+  }
+  // Sent to both players: the server has reserved a room for exactly the two of them
+  | { type: 'challengeAccepted'; payload: { challengeId: string; roomCode: string; opponent: string } }
+  | { type: 'challengeClosed'; payload: { challengeId: string | null; reason: ChallengeCloseReason; message: string | null } }
+  | { type: 'roomCreated'; payload: { roomCode: string } }
+  | { type: 'roomError'; payload: { code: RoomErrorCode; roomCode?: string; message: string } }
+  | { type: 'error'; gameId?: string; payload: { message: string } }
+  | { type: 'pong'; payload: { timestamp: number } };
+
+export type RoomErrorCode = 'not_found' | 'full' | 'unknown';
+
+export type LiveTopic = 'presence' | 'leaderboard';
+
+// unavailable: the target is offline, already playing or challenged by someone else
+export type ChallengeCloseReason = 'declined' | 'cancelled' | 'expired' | 'unavailable';
+
+export const isOnlineGameMode = (mode: GameMode | null): mode is OnlineGameMode =>
+  mode === 'friend' || mode === 'computer';
+
+export type ClientMessageType = ClientMessage['type'];
+export type ServerMessageType = ServerMessage['type'];
+
+export type ServerMessageListener = (message: ServerMessage) => void;
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The Go backend serialises some structs with exported (PascalCase) field
+// names, so every field is looked up in both casings.
+const pick = (obj: RawObject, key: string): unknown => {
+  if (obj[key] !== undefined) return obj[key];
+  return obj[key.charAt(0).toUpperCase() + key.slice(1)];
+};
+
+const isCell = (value: unknown): value is number =>
+  value === 0 || value === 1 || value === 2;
+
+export const createEmptyBoard = (): number[][] =>
+  Array(BOARD_ROWS).fill(null).map(() => Array(BOARD_COLUMNS).fill(0));
+
+export const decodeBoard = (value: unknown): number[][] => {
+  if (!Array.isArray(value) || value.length === 0) return createEmptyBoard();
+  const width = Array.isArray(value[0]) ? value[0].length : 0;
+  const valid = width > 0 && value.every(
+    (row) => Array.isArray(row) && row.length === width && row.every(isCell)
+  );
+  if (!valid) {
+    throw new ProtocolError('Malformed board');
+  }
+  return value.map((row: number[]) => row.slice());
+};
+
+export const decodePlayer = (value: unknown): Player | undefined => {
+  if (!isObject(value)) return undefined;
+  const username = pick(value, 'username');
+  if (typeof username !== 'string' || !username) return undefined;
+  const id = pick(value, 'id') ?? pick(value, 'ID');
+  return {
+    id: typeof id === 'string' || typeof id === 'number' ? String(id) : username,
+    username,
+    isBot: pick(value, 'isBot') === true,
+  };
+};
+
+export const decodeMove = (value: unknown): Move | undefined => {
+  if (!isObject(value)) return undefined;
+  const row = pick(value, 'row');
+  const column = pick(value, 'column');
+  const player = pick(value, 'player');
+  if (typeof row !== 'number' || typeof column !== 'number' || typeof player !== 'number') {
+    return undefined;
+  }
+  return { row, column, player };
+};
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+export const decodeTimeControl = (value: unknown): TimeControl | undefined => {
+  if (!isObject(value)) return undefined;
+  const type = pick(value, 'type');
+  if (type === 'perMove') {
+    const seconds = pick(value, 'seconds');
+    return isPositiveNumber(seconds) ? { type, seconds } : undefined;
+  }
+  if (type === 'total') {
+    const minutes = pick(value, 'minutes');
+    const increment = pick(value, 'incrementSeconds');
+    if (!isPositiveNumber(minutes)) return undefined;
+    return { type, minutes, incrementSeconds: typeof increment === 'number' && increment > 0 ? increment : 0 };
+  }
+  return undefined;
+};
+
+const decodeClock = (value: unknown): GameClock | undefined => {
+  if (!isObject(value)) return undefined;
+  const timeControl = decodeTimeControl(pick(value, 'timeControl'));
+  const remaining = pick(value, 'remainingMs');
+  const serverTime = pick(value, 'serverTime');
+  if (!timeControl || !Array.isArray(remaining) || remaining.length !== 2 || typeof serverTime !== 'number') {
+    return undefined;
+  }
+  const [player1Ms, player2Ms] = remaining.map(ms => (typeof ms === 'number' ? Math.max(0, ms) : 0));
+  return { timeControl, remainingMs: [player1Ms, player2Ms], serverTime };
+};
+
+export const decodeActiveUser = (value: unknown): ActiveUser | undefined => {
+  if (!isObject(value)) return undefined;
+  const username = pick(value, 'username');
+  const status = pick(value, 'status');
+  const gameId = pick(value, 'gameId');
+  if (typeof username !== 'string' || !username || (status !== 'waiting' && status !== 'in_game')) {
+    return undefined;
+  }
+  return { username, status, ...(typeof gameId === 'string' && gameId ? { gameId } : {}) };
+};
+
+const decodeActiveUsers = (value: unknown): ActiveUser[] =>
+  (Array.isArray(value) ? value : [])
+    .map(decodeActiveUser)
+    .filter((user): user is ActiveUser => user !== undefined);
+
+const LIVE_TOPICS: LiveTopic[] = ['presence', 'leaderboard'];
+
+const GAME_STATUSES: GameStatus[] = ['waiting', 'in_progress', 'completed', 'draw'];
+
+const decodeStatus = (value: unknown): GameStatus =>
+  GAME_STATUSES.includes(value as GameStatus) ? (value as GameStatus) : 'waiting';
+
+export const decodeGameState = (value: unknown): GameState => {
+  const payload = isObject(value) ? value : {};
+  const turn = pick(payload, 'currentTurn');
+  return {
+    board: decodeBoard(pick(payload, 'board')),
+    currentTurn: turn === 1 || turn === 2 ? turn : 1,
+    status: decodeStatus(pick(payload, 'status')),
+    winner: decodePlayer(pick(payload, 'winner')),
+    player1: decodePlayer(pick(payload, 'player1')),
+    player2: decodePlayer(pick(payload, 'player2')),
+    lastMove: decodeMove(pick(payload, 'lastMove')),
+    clock: decodeClock(pick(payload, 'clock')),
+  };
+};
+
+// Winner may arrive as a bare username or as a player object
+const decodeWinnerName = (value: unknown): string | null => {
+  if (typeof value === 'string' && value) return value;
+  return decodePlayer(value)?.username ?? null;
+};
+
+const GAME_END_REASONS: GameEndReason[] = ['connectFour', 'draw', 'timeout'];
+
+export const decodeGameResult = (value: unknown): GameResult => {
+  const payload = isObject(value) ? value : {};
+  const reason = pick(payload, 'reason');
+  return {
+    winner: decodeWinnerName(pick(payload, 'winner')),
+    isDraw: pick(payload, 'isDraw') === true,
+    botWon: pick(payload, 'botWon') === true,
+    reason: GAME_END_REASONS.includes(reason as GameEndReason) ? (reason as GameEndReason) : undefined,
+  };
+};
+
+const decodeErrorMessage = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (isObject(value) && typeof pick(value, 'message') === 'string') {
+    return pick(value, 'message') as string;
+  }
+  return 'Unknown server error';
+};
+
+const ROOM_ERROR_CODES: RoomErrorCode[] = ['not_found', 'full'];
+
+const decodeRoomError = (value: unknown) => {
+  const payload = isObject(value) ? value : {};
+  const code = pick(payload, 'code');
+  const roomCode = pick(payload, 'roomCode');
+  return {
+    code: ROOM_ERROR_CODES.includes(code as RoomErrorCode) ? (code as RoomErrorCode) : 'unknown' as const,
+    roomCode: typeof roomCode === 'string' ? roomCode : undefined,
+    message: decodeErrorMessage(value),
+  };
+};
+
+const decodeOptionalString = (payload: RawObject, key: string): string | null => {
+  const value = pick(payload, key);
+  return typeof value === 'string' && value ? value : null;
+};
+
+const decodeExpiry = (payload: RawObject) => {
+  const expiresAt = pick(payload, 'expiresAt');
+  const serverTime = pick(payload, 'serverTime');
+  return {
+    expiresAt: typeof expiresAt === 'number' ? expiresAt : null,
+    serverTime: typeof serverTime === 'number' ? serverTime : undefined,
+  };
+};
+
+// Server timestamps are shifted onto our clock in case the two disagree
+export const toLocalTime = (serverTimestamp: number, serverTime?: number) =>
+  serverTime === undefined ? serverTimestamp : serverTimestamp + Date.now() - serverTime;
+
+const CHALLENGE_CLOSE_REASONS: ChallengeCloseReason[] = ['declined', 'cancelled', 'expired', 'unavailable'];
+
+const decodeChallengeClosed = (value: unknown) => {
+  const payload = isObject(value) ? value : {};
+  const reason = pick(payload, 'reason');
+  return {
+    challengeId: decodeOptionalString(payload, 'challengeId'),
+    reason: CHALLENGE_CLOSE_REASONS.includes(reason as ChallengeCloseReason)
+      ? (reason as ChallengeCloseReason)
+      : 'unavailable' as const,
+    message: decodeOptionalString(payload, 'message'),
+  };
+};
+
+export const EMOTE_IDS: EmoteId[] = ['thumbsUp', 'laugh', 'wow', 'think', 'fire', 'gg'];
+
+// Parse and validate a raw frame. Throws ProtocolError for anything that is
+// not a recognised server message.
+export const decodeServerMessage = (raw: unknown): ServerMessage => {
+  let data: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw);
+    } catch (error) {
+      throw new ProtocolError('Frame is not valid JSON');
+    }
+  }
+  if (!isObject(data) || typeof data.type !== 'string') {
+    throw new ProtocolError('Frame has no message type');
+  }
+
+  const gameId = typeof data.gameId === 'string' ? data.gameId : undefined;
+
+  switch (data.type) {
+    case 'gameStart':
+    case 'gameState':
+      return { type: data.type, gameId, payload: decodeGameState(data.payload) };
+    case 'gameFinished':
+      return { type: 'gameFinished', gameId, payload: decodeGameResult(data.payload) };
+    case 'leaderboardUpdate': {
+      const result = decodeGameResult(data.payload);
+      return { type: 'leaderboardUpdate', gameId, payload: { winner: result.winner, isDraw: result.isDraw } };
+    }
+    case 'subscribed': {
+      const topics = isObject(data.payload) ? pick(data.payload, 'topics') : undefined;
+      return {
+        type: 'subscribed',
+        payload: { topics: (Array.isArray(topics) ? topics : []).filter((t): t is LiveTopic => LIVE_TOPICS.includes(t)) },
+      };
+    }
+    case 'presence': {
+      const payload = isObject(data.payload) ? data.payload : {};
+      const users = pick(payload, 'users');
+      const left = pick(payload, 'left');
+      return {
+        type: 'presence',
+        payload: {
+          ...(Array.isArray(users) ? { users: decodeActiveUsers(users) } : {}),
+          updated: decodeActiveUsers(pick(payload, 'updated')),
+          left: (Array.isArray(left) ? left : []).filter((name): name is string => typeof name === 'string'),
+        },
+      };
+    }
+    case 'queueStatus': {
+      const payload = isObject(data.payload) ? data.payload : {};
+      const botDeadline = pick(payload, 'botDeadline');
+      const serverTime = pick(payload, 'serverTime');
+      return {
+        type: 'queueStatus',
+        payload: {
+          botDeadline: typeof botDeadline === 'number' ? botDeadline : null,
+          serverTime: typeof serverTime === 'number' ? serverTime : undefined,
+        },
+      };
+    }
+    case 'rematchPending':
+      return { type: 'rematchPending', payload: decodeExpiry(isObject(data.payload) ? data.payload : {}) };
+    case 'rematchRequested': {
+      const payload = isObject(data.payload) ? data.payload : {};
+      const from = decodeOptionalString(payload, 'from');
+      if (!from) throw new ProtocolError('rematchRequested has no sender');
+      return { type: 'rematchRequested', payload: { from, ...decodeExpiry(payload) } };
+    }
+    case 'rematchDeclined':
+      return { type: 'rematchDeclined', payload: { by: decodeOptionalString(isObject(data.payload) ? data.payload : {}, 'by') } };
+    case 'rematchTimeout':
+      return { type: 'rematchTimeout', payload: { message: decodeOptionalString(isObject(data.payload) ? data.payload : {}, 'message') } };
+    case 'opponentLeft':
+      return { type: 'opponentLeft', payload: { username: decodeOptionalString(isObject(data.payload) ? data.payload : {}, 'username') } };
+    case 'spectatorCount': {
+      const count = isObject(data.payload) ? pick(data.payload, 'count') : undefined;
+      return {
+        type: 'spectatorCount',
+        gameId,
+        payload: { count: typeof count === 'number' && count > 0 ? Math.floor(count) : 0 },
+      };
+    }
+    case 'chat': {
+      const payload = isObject(data.payload) ? data.payload : {};
+      const from = decodeOptionalString(payload, 'from');
+      const text = pick(payload, 'text');
+      const sentAt = pick(payload, 'sentAt');
+      if (!from || typeof text !== 'string') throw new ProtocolError('Malformed chat message');
+      return { type: 'chat', payload: { from, text, sentAt: typeof sentAt === 'number' ? sentAt : Date.now() } };
+    }
+    case 'emote': {
+      const payload = isObject(data.payload) ? data.payload : {};
+      const from = decodeOptionalString(payload, 'from');
+      const emote = pick(payload, 'emote');
+      if (!from || !EMOTE_IDS.includes(emote as EmoteId)) throw new ProtocolError('Malformed emote');
+      return { type: 'emote', payload: { from, emote: emote as EmoteId } };
+    }
+    case 'challengeSent': {
+      const payload = isObject(data.payload) ? data.payload : {};
+      const challengeId = decodeOptionalString(payload, 'challengeId');
+      const to = decodeOptionalString(payload, 'to');
+      if (!challengeId || !to) throw new ProtocolError('Malformed challengeSent');
+      return { type: 'challengeSent', payload: { challengeId, to, ...decodeExpiry(payload) } };
+    }
+    case 'challengeReceived': {
+      const payload = isObject(data.payload) ? data.payload : {};
+      const challengeId = decodeOptionalString(payload, 'challengeId');
+      const from = decodeOptionalString(payload, 'from');
+      if (!challengeId || !from) throw new ProtocolError('Malformed challengeReceived');
+      const timeControl = decodeTimeControl(pick(payload, 'timeControl'));
+      return {
+        type: 'challengeReceived',
+        payload: { challengeId, from, ...decodeExpiry(payload), ...(timeControl ? { timeControl } : {}) },
+      };
+    }
+    case 'challengeAccepted': {
+      const payload = isObject(data.payload) ? data.payload : {};
+      const challengeId = decodeOptionalString(payload, 'challengeId');
+      const roomCode = decodeOptionalString(payload, 'roomCode');
+      const opponent = decodeOptionalString(payload, 'opponent');
+      if (!challengeId || !roomCode || !opponent) throw new ProtocolError('Malformed challengeAccepted');
+      return { type: 'challengeAccepted', payload: { challengeId, roomCode, opponent } };
+    }
+    case 'challengeClosed':
+      return { type: 'challengeClosed', payload: decodeChallengeClosed(data.payload) };
+    case 'roomCreated': {
+      const roomCode = isObject(data.payload) ? pick(data.payload, 'roomCode') : undefined;
+      if (typeof roomCode !== 'string' || !roomCode) {
+        throw new ProtocolError('roomCreated has no room code');
+      }
+      return { type: 'roomCreated', payload: { roomCode } };
+    }
+    case 'roomError':
+      return { type: 'roomError', payload: decodeRoomError(data.payload) };
+    case 'error':
+      return { type: 'error', gameId, payload: { message: decodeErrorMessage(data.payload) } };
+    case 'pong': {
+      const timestamp = isObject(data.payload) ? pick(data.payload, 'timestamp') : undefined;
+      return { type: 'pong', payload: { timestamp: typeof timestamp === 'number' ? timestamp : 0 } };
+    }
+    default:
+      throw new ProtocolError(`Unknown message type: ${data.type}`);
+  }
+};
+
+export const encodeClientMessage = (message: ClientMessage): string => JSON.stringify(message);
+
+// Typed send/subscribe API shared by every consumer of the game socket
+export interface GameChannel {
+  send: (message: ClientMessage) => boolean;
+  subscribe: (listener: ServerMessageListener) => () => void;
+}
@@ -0,0 +1,23 @@
+import { buildRoomInviteUrl, normalizeRoomCode, parseRoomHash } from './rooms';
+
+describe('room codes', () => {
+  test('normalises case, spaces and dashes', () => {
+    expect(normalizeRoomCode(' ab12-cd ')).toBe('AB12CD');
+  });
+
+  test('accepts a pasted invite link', () => {
+    expect(normalizeRoomCode('https://example.com/#room=xy7k9q')).toBe('XY7K9Q');
+  });
+
+  test('rejects codes of the wrong length or alphabet', () => {
+    expect(normalizeRoomCode('ab')).toBeNull();
+    expect(normalizeRoomCode('ABCDEFGHI')).toBeNull();
+    expect(normalizeRoomCode('AB!2')).toBeNull();
+  });
+
+  test('round-trips through an invite link', () => {
+    const url = buildRoomInviteUrl('Q7W2ZP');
+    expect(parseRoomHash(url.slice(url.indexOf('#')))).toBe('Q7W2ZP');
+    expect(parseRoomHash('#replay=C4')).toBeNull();
+  });
+});
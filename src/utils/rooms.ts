@@ -0,0 +1,32 @@
+// Private room invite codes and links (#room=CODE)
+import { RoomErrorCode } from './protocol';
+
+export const ROOM_HASH_PREFIX = '#room=';
+const ROOM_CODE_PATTERN = /^[A-Z0-9]{4,8}$/;
+
+export const ROOM_ERROR_MESSAGES: Record<RoomErrorCode, string> = {
+  not_found: "That room doesn't exist or has already closed.",
+  full: 'That room already has two players.',
+  unknown: "Couldn't join that room.",
+};
+
+// Canonical form of a typed or pasted code, or null if it cannot be one.
+// Codes are case-insensitive and may be pasted with spaces or dashes, or
+// as a whole invite link.
+export const normalizeRoomCode = (input: string): string | null => {
+  const hashStart = input.indexOf(ROOM_HASH_PREFIX);
+  const raw = hashStart === -1 ? input : input.slice(hashStart + ROOM_HASH_PREFIX.length);
+  const code = raw.trim().toUpperCase().replace(/[\s-]/g, '');
+  return ROOM_CODE_PATTERN.test(code) ? code : null;
+};
+
+export const buildRoomInviteUrl = (code: string): string => {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${ROOM_HASH_PREFIX}${code}`;
+};
+
+// Room code in a location hash, or null when the hash is not a valid invite
+export const parseRoomHash = (hash: string): string | null => {
+  if (!hash.startsWith(ROOM_HASH_PREFIX)) return null;
+  return normalizeRoomCode(hash.slice(ROOM_HASH_PREFIX.length));
+};
@@ -0,0 +1,44 @@
+import { Route, formatRoute, guardRoute, parseRoute } from './router';
+
+describe('routes', () => {
+  test('round-trip through the hash', () => {
+    const routes: Route[] = [
+      { name: 'lobby' },
+      { name: 'login', next: '#/profile/amy' },
+      { name: 'play', mode: 'ai' },
+      { name: 'game', gameId: 'g-1' },
+      { name: 'watch', player: 'bob', gameId: 'g-2' },
+      { name: 'leaderboard' },
+      { name: 'profile', username: 'Zoë Smith' },
+      { name: 'replay', notation: 'C4;v=1;size=7x6;res=*;moves=44' },
+      { name: 'room', code: 'ABCD' },
+    ];
+    routes.forEach(route => expect(parseRoute(formatRoute(route))).toEqual(route));
+  });
+
+  test('reads share links and rejects unknown paths', () => {
+    expect(parseRoute('')).toEqual({ name: 'lobby' });
+    expect(parseRoute('#room=ab-cd')).toEqual({ name: 'room', code: 'ABCD' });
+    expect(parseRoute('#room=!')).toEqual({ name: 'room', code: null });
+    expect(parseRoute('#/play/chess')).toEqual({ name: 'notFound' });
+    expect(parseRoute('#/profile/%E0')).toEqual({ name: 'notFound' });
+    expect(parseRoute('#/game/a/b')).toEqual({ name: 'notFound' });
+  });
+});
+
+describe('route guards', () => {
+  test('sends logged-out users to login and back again', () => {
+    const profile: Route = { name: 'profile', username: 'amy' };
+    const login = guardRoute(profile, false);
+    expect(login).toEqual({ name: 'login', next: '#/profile/amy' });
+    expect(guardRoute(login as Route, true)).toEqual(profile);
+    expect(guardRoute({ name: 'lobby' }, false)).toEqual({ name: 'login' });
+  });
+
+  test('lets public and permitted routes through', () => {
+    expect(guardRoute({ name: 'replay', notation: 'x' }, false)).toBeNull();
+    expect(guardRoute({ name: 'leaderboard' }, true)).toBeNull();
+    expect(guardRoute({ name: 'login', next: '#/login' }, true)).toEqual({ name: 'lobby' });
+    expect(guardRoute({ name: 'notFound' }, true)).toEqual({ name: 'lobby' });
+  });
+});
@@ -0,0 +1,119 @@
+// Client-side routes, kept in the location hash (#/game/ID, #/profile/NAME)
+// so deep links work on any static host. The #room= and #replay= share links
+// predate the router and are routes of their own.
+import { GameMode } from '../types';
+import { REPLAY_HASH_PREFIX } from './notation';
+import { ROOM_HASH_PREFIX, parseRoomHash } from './rooms';
+
+export type Route =
+  // `next` is the hash to return to after logging in
+  | { name: 'login'; next?: string }
+  | { name: 'lobby' }
+  // A game that has not started yet, or an offline one
+  | { name: 'play'; mode: GameMode }
+  | { name: 'game'; gameId: string }
+  | { name: 'watch'; player: string; gameId?: string }
+  | { name: 'leaderboard' }
+  | { name: 'profile'; username: string }
+  | { name: 'replay'; notation: string }
+  // Invite link; code is null when the link is malformed
+  | { name: 'room'; code: string | null }
+  | { name: 'notFound' };
+
+export type RouteName = Route['name'];
+
+const GAME_MODES: GameMode[] = ['friend', 'computer', 'local', 'ai'];
+
+// Shown over whatever screen was open before, rather than replacing it
+const OVERLAY_ROUTES: RouteName[] = ['profile', 'replay'];
+
+// Reachable without a username
+const PUBLIC_ROUTES: RouteName[] = ['login', 'replay'];
+
+export const isOverlayRoute = (route: Route): boolean => OVERLAY_ROUTES.includes(route.name);
+
+const decode = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (error) {
+    return null;
+  }
+};
+
+export const parseRoute = (hash: string): Route => {
+  if (hash === '' || hash === '#' || hash === '#/') return { name: 'lobby' };
+  if (hash.startsWith(ROOM_HASH_PREFIX)) return { name: 'room', code: parseRoomHash(hash) };
+  if (hash.startsWith(REPLAY_HASH_PREFIX)) {
+    const encoded = hash.slice(REPLAY_HASH_PREFIX.length);
+    return { name: 'replay', notation: decode(encoded) ?? encoded };
+  }
+  if (!hash.startsWith('#/')) return { name: 'notFound' };
+
+  const [path, query = ''] = hash.slice(2).split('?');
+  const segments = path.split('/').filter(Boolean).map(decode);
+  if (segments.some(segment => segment === null)) return { name: 'notFound' };
+  const [page, first, second, ...rest] = segments as string[];
+  if (rest.length > 0) return { name: 'notFound' };
+
+  switch (page) {
+    case 'login': {
+      const next = new URLSearchParams(query).get('next');
+      return next ? { name: 'login', next } : { name: 'login' };
+    }
+    case 'leaderboard':
+      return first === undefined ? { name: 'leaderboard' } : { name: 'notFound' };
+    case 'play':
+      return GAME_MODES.includes(first as GameMode) && second === undefined
+        ? { name: 'play', mode: first as GameMode }
+        : { name: 'notFound' };
+    case 'game':
+      return first && second === undefined ? { name: 'game', gameId: first } : { name: 'notFound' };
+    case 'watch':
+      if (!first) return { name: 'notFound' };
+      return second ? { name: 'watch', player: first, gameId: second } : { name: 'watch', player: first };
+    case 'profile':
+      return first && second === undefined ? { name: 'profile', username: first } : { name: 'notFound' };
+    default:
+      return { name: 'notFound' };
+  }
+};
+
+export const formatRoute = (route: Route): string => {
+  const encode = encodeURIComponent;
+  switch (route.name) {
+    case 'login':
+      return route.next ? `#/login?next=${encode(route.next)}` : '#/login';
+    case 'lobby':
+    case 'notFound':
+      return '#/';
+    case 'play':
+      return `#/play/${route.mode}`;
+    case 'game':
+      return `#/game/${encode(route.gameId)}`;
+    case 'watch':
+      return `#/watch/${encode(route.player)}${route.gameId ? `/${encode(route.gameId)}` : ''}`;
+    case 'leaderboard':
+      return '#/leaderboard';
+    case 'profile':
+      return `#/profile/${encode(route.username)}`;
+    case 'replay':
+      return `${REPLAY_HASH_PREFIX}${encode(route.notation)}`;
+    case 'room':
+      return route.code ? `${ROOM_HASH_PREFIX}${route.code}` : '#/';
+  }
+};
+
+// Where a route must send the user instead, or null when it may be shown.
+// Logged-out users are sent to login and brought back afterwards.
+export const guardRoute = (route: Route, loggedIn: boolean): Route | null => {
+  if (route.name === 'notFound') return { name: 'lobby' };
+  if (!loggedIn) {
+    if (PUBLIC_ROUTES.includes(route.name)) return null;
+    return route.name === 'lobby' ? { name: 'login' } : { name: 'login', next: formatRoute(route) };
+  }
+  if (route.name === 'login') {
+    const next = route.next ? parseRoute(route.next) : null;
+    return next && next.name !== 'login' && next.name !== 'notFound' ? next : { name: 'lobby' };
+  }
+  return null;
+};
@@ -0,0 +1,83 @@
+// The current sign-in session, shared by the REST client and the game socket.
+// Holds no network code, so both can depend on it; utils/auth.ts starts,
+// refreshes and ends sessions against the server.
+import { AuthSession } from '../types';
+import { clearSession, loadSession, saveSession } from './localStorage';
+
+export type SessionEndReason = 'logout' | 'expired' | 'rejected';
+
+export const SESSION_END_MESSAGES: Record<Exclude<SessionEndReason, 'logout'>, string> = {
+  expired: 'Your session has expired. Please log in again.',
+  rejected: 'You were signed out because the server no longer accepts your session. Please log in again.',
+};
+
+// Close code the server uses when it refuses a socket's token
+export const UNAUTHORIZED_CLOSE_CODE = 4401;
+
+type SessionListener = (session: AuthSession | null, reason?: SessionEndReason) => void;
+
+let current: AuthSession | null | undefined;
+// Why the saved session was dropped when the page loaded, until a new one starts
+let endedOnLoad: SessionEndReason | null = null;
+const listeners = new Set<SessionListener>();
+
+const isExpired = (session: AuthSession) => session.expiresAt !== null && session.expiresAt <= Date.now();
+
+export const getSession = (): AuthSession | null => {
+  if (current === undefined) {
+    const saved = loadSession();
+    if (saved && isExpired(saved)) {
+      clearSession();
+      endedOnLoad = 'expired';
+      current = null;
+    } else {
+      current = saved;
+    }
+  }
+  return current;
+};
+
+// Reported by useSession as a notice, like a session that ends while open
+export const getSessionEndedOnLoad = (): SessionEndReason | null => {
+  getSession();
+  return endedOnLoad;
+};
+
+export const getAuthToken = (): string | null => getSession()?.token ?? null;
+
+export const onSessionChange = (listener: SessionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Start a session, or replace it with a refreshed one
+export const setSession = (session: AuthSession): void => {
+  current = session;
+  endedOnLoad = null;
+  saveSession(session);
+  listeners.forEach(listener => listener(session));
+};
+
+export const endSession = (reason: SessionEndReason): void => {
+  if (!getSession()) return;
+  current = null;
+  clearSession();
+  listeners.forEach(listener => listener(null, reason));
+};
+
+// The server refused our token: either it ran out or it was revoked
+export const rejectSession = (): void => {
+  const session = getSession();
+  endSession(session && isExpired(session) ? 'expired' : 'rejected');
+};
+
+export const authHeaders = (): Record<string, string> => {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Browsers cannot set headers on a WebSocket handshake, so the token rides in the query
+export const withAuthToken = (url: string, token: string | null): string =>
+  token ? `${url}${url.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}` : url;
@@ -35,6 +35,18 @@ export const removeStorageErrorListener = (callback: ErrorCallback) => {
   }
 };
 
-const notifyError = (error: StorageError) => {
+export const notifyError = (error: StorageError) => {
   errorListeners.forEach(listener => listener(error));
-};
\ No newline at end of file
+};
+
+// Map a browser storage exception onto our error types. Quota errors carry
+// different names and codes across browsers; anything else (SecurityError,
+// storage disabled by policy, etc.) means storage cannot be used at all.
+export const classifyStorageError = (error: unknown): StorageError => {
+  if (error instanceof StorageError) return error;
+  const { name, code } = (error ?? {}) as { name?: string; code?: number };
+  if (name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014) {
+    return new StorageQuotaError();
+  }
+  return new StorageUnavailableError();
+};
@@ -0,0 +1,44 @@
+import {
+  describeTimeControl,
+  findTimeControlPreset,
+  formatClock,
+  getRemainingMs,
+  isLowTime,
+} from './timeControl';
+import { GameClock } from '../types';
+
+const clock: GameClock = {
+  timeControl: { type: 'total', minutes: 3, incrementSeconds: 2 },
+  remainingMs: [90000, 45000],
+  serverTime: 0,
+};
+
+describe('time controls', () => {
+  test('only the player to move loses time while the game runs', () => {
+    expect(getRemainingMs(clock, 1, 1, true, 5000)).toBe(85000);
+    expect(getRemainingMs(clock, 2, 1, true, 5000)).toBe(45000);
+    expect(getRemainingMs(clock, 1, 1, false, 5000)).toBe(90000);
+    expect(getRemainingMs(clock, 1, 1, true, 120000)).toBe(0);
+  });
+
+  test('warns when time is low', () => {
+    expect(isLowTime(15000, clock.timeControl)).toBe(true);
+    expect(isLowTime(45000, clock.timeControl)).toBe(false);
+    expect(isLowTime(4000, { type: 'perMove', seconds: 15 })).toBe(true);
+    expect(isLowTime(6000, { type: 'perMove', seconds: 15 })).toBe(false);
+  });
+
+  test('formats minutes and tenths', () => {
+    expect(formatClock(125000)).toBe('2:05');
+    expect(formatClock(10000)).toBe('0:10');
+    expect(formatClock(9450)).toBe('9.4');
+    expect(formatClock(0)).toBe('0.0');
+  });
+
+  test('describes and matches presets', () => {
+    expect(describeTimeControl(clock.timeControl)).toBe('3 min + 2 s');
+    expect(describeTimeControl({ type: 'perMove', seconds: 30 })).toBe('30 s per move');
+    expect(findTimeControlPreset(clock.timeControl)?.id).toBe('3+2');
+    expect(findTimeControlPreset(null)?.id).toBe('none');
+  });
+});
@@ -0,0 +1,59 @@
+// Time control presets and clock arithmetic for the game clocks
+import { GameClock, TimeControl } from '../types';
+
+export interface TimeControlPreset {
+  id: string;
+  label: string;
+  timeControl: TimeControl | null;
+}
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: 'none', label: 'No clock', timeControl: null },
+  { id: '15s', label: '15 s per move', timeControl: { type: 'perMove', seconds: 15 } },
+  { id: '30s', label: '30 s per move', timeControl: { type: 'perMove', seconds: 30 } },
+  { id: '3+2', label: '3 min + 2 s', timeControl: { type: 'total', minutes: 3, incrementSeconds: 2 } },
+  { id: '5+0', label: '5 min', timeControl: { type: 'total', minutes: 5, incrementSeconds: 0 } },
+  { id: '10+5', label: '10 min + 5 s', timeControl: { type: 'total', minutes: 10, incrementSeconds: 5 } },
+];
+
+const sameTimeControl = (a: TimeControl | null, b: TimeControl | null): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+export const findTimeControlPreset = (timeControl: TimeControl | null): TimeControlPreset | undefined =>
+  TIME_CONTROL_PRESETS.find(preset => sameTimeControl(preset.timeControl, timeControl));
+
+export const describeTimeControl = (timeControl: TimeControl): string => {
+  if (timeControl.type === 'perMove') return `${timeControl.seconds} s per move`;
+  const increment = timeControl.incrementSeconds > 0 ? ` + ${timeControl.incrementSeconds} s` : '';
+  return `${timeControl.minutes} min${increment}`;
+};
+
+// Time left for a player (1 or 2) elapsedMs after the clock snapshot was taken.
+// Only the player to move loses time, and only while the game is running.
+export const getRemainingMs = (
+  clock: GameClock,
+  player: number,
+  currentTurn: number,
+  running: boolean,
+  elapsedMs: number
+): number => {
+  const remaining = clock.remainingMs[player === 1 ? 0 : 1];
+  if (!running || player !== currentTurn) return remaining;
+  return Math.max(0, remaining - elapsedMs);
+};
+
+// Low-time warning: a third of a per-move budget (at most 5 s), or a tenth
+// of the total (at most 30 s)
+export const isLowTime = (remainingMs: number, timeControl: TimeControl): boolean => {
+  const threshold = timeControl.type === 'perMove'
+    ? Math.min(5000, (timeControl.seconds * 1000) / 3)
+    : Math.min(30000, (timeControl.minutes * 60000) / 10);
+  return remainingMs <= threshold;
+};
+
+// m:ss, with tenths under ten seconds
+export const formatClock = (remainingMs: number): string => {
+  if (remainingMs < 10000) return (Math.floor(remainingMs / 100) / 10).toFixed(1);
+  const seconds = Math.ceil(remainingMs / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
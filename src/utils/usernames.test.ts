@@ -0,0 +1,38 @@
+import { decodeAvailability, isReservedUsername, suggestUsernames, validateUsername } from './usernames';
+
+describe('username rules', () => {
+  test('reserves names regardless of case and separators', () => {
+    expect(isReservedUsername('Ad_Min')).toBe(true);
+    expect(isReservedUsername('s-y-s-t-e-m')).toBe(true);
+    expect(isReservedUsername('adminton')).toBe(false);
+  });
+
+  test('reports format problems', () => {
+    expect(validateUsername('ab')).toBe('Username must be between 3 and 20 characters');
+    expect(validateUsername('hi there')).toMatch(/letters, numbers/);
+    expect(validateUsername('player_1')).toBe('');
+  });
+
+  test('suggests valid, distinct alternatives that fit the length limit', () => {
+    const suggestions = suggestUsernames('a_very_long_username', 3, () => 0.5);
+    expect(suggestions).toHaveLength(3);
+    suggestions.forEach(name => {
+      expect(validateUsername(name)).toBe('');
+      expect(name).not.toBe('a_very_long_username');
+    });
+    expect(new Set(suggestions).size).toBe(3);
+  });
+});
+
+describe('availability answers', () => {
+  test('keeps usable server suggestions', () => {
+    expect(decodeAvailability({ available: false, suggestions: ['amy2', 'admin', 'amy', 'a b'] }, 'amy'))
+      .toEqual({ available: false, reserved: false, suggestions: ['amy2'] });
+  });
+
+  test('suggests locally when the server offers nothing', () => {
+    const answer = decodeAvailability({ available: true, reserved: true }, 'amy');
+    expect(answer.available).toBe(false);
+    expect(answer.suggestions.length).toBeGreaterThan(0);
+  });
+});
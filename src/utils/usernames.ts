@@ -0,0 +1,89 @@
+// Username rules shared by the login form: format, reserved names,
+// availability answers from the server and alternatives for taken names
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 20;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+// Compared ignoring case, underscores and hyphens, so "Ad_min" is reserved too
+const RESERVED_USERNAMES = [
+  'admin',
+  'administrator',
+  'anonymous',
+  'bot',
+  'computer',
+  'connect4',
+  'guest',
+  'moderator',
+  'null',
+  'root',
+  'server',
+  'support',
+  'system',
+  'undefined',
+];
+
+export type UsernameStatus =
+  // Nothing to check yet, or the name is not well formed
+  | 'idle'
+  | 'checking'
+  | 'available'
+  | 'taken'
+  | 'reserved'
+  // The server could not say; it decides on submit
+  | 'unknown';
+
+export interface UsernameAvailability {
+  available: boolean;
+  reserved: boolean;
+  suggestions: string[];
+}
+
+const canonical = (username: string) => username.toLowerCase().replace(/[_-]/g, '');
+
+export const isReservedUsername = (username: string): boolean =>
+  RESERVED_USERNAMES.includes(canonical(username));
+
+// Format problems only; reserved and taken names are reported as a status
+export const validateUsername = (username: string): string => {
+  if (!username.trim()) return 'Username is required';
+  if (username.length < USERNAME_MIN_LENGTH || username.length > USERNAME_MAX_LENGTH) {
+    return `Username must be between ${USERNAME_MIN_LENGTH} and ${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return 'Username can only contain letters, numbers, underscores, and hyphens';
+  }
+  return '';
+};
+
+const isUsable = (username: string) => !validateUsername(username) && !isReservedUsername(username);
+
+// Alternatives for a taken name: the name with a number or a suffix,
+// shortened to fit the length limit
+export const suggestUsernames = (username: string, count = 3, random: () => number = Math.random): string[] => {
+  const base = username.replace(/[^a-zA-Z0-9_-]/g, '') || 'player';
+  const fit = (suffix: string) => `${base.slice(0, USERNAME_MAX_LENGTH - suffix.length)}${suffix}`;
+  const candidates = [
+    fit(String(Math.floor(random() * 90) + 10)),
+    fit(`_${Math.floor(random() * 900) + 100}`),
+    fit('_c4'),
+    fit(String(new Date().getFullYear() % 100)),
+    fit(`-${Math.floor(random() * 9000) + 1000}`),
+  ];
+  return Array.from(new Set(candidates))
+    .filter(candidate => candidate !== username && isUsable(candidate))
+    .slice(0, count);
+};
+
+// Server suggestions are kept only if they pass the same rules as typed names
+export const decodeAvailability = (value: unknown, username: string): UsernameAvailability => {
+  const raw = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const reserved = raw.reserved === true;
+  const available = raw.available === true && !reserved;
+  const suggestions = (Array.isArray(raw.suggestions) ? raw.suggestions : [])
+    .filter((name): name is string => typeof name === 'string' && name !== username && isUsable(name));
+  return {
+    available,
+    reserved,
+    suggestions: available || suggestions.length > 0 ? suggestions : suggestUsernames(username),
+  };
+};
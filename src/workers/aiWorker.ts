@@ -0,0 +1,24 @@
+/// <reference lib="webworker" />
+// Web Worker entry: runs the search engine off the main thread
+import { chooseMove } from '../utils/aiEngine';
+import { AiDifficulty } from '../types';
+
+export interface AiMoveRequest {
+  id: number;
+  board: number[][];
+  player: number;
+  difficulty: AiDifficulty;
+}
+
+export interface AiMoveResponse {
+  id: number;
+  column: number;
+}
+
+const ctx = globalThis as unknown as DedicatedWorkerGlobalScope;
+
+ctx.onmessage = (event: MessageEvent<AiMoveRequest>) => {
+  const { id, board, player, difficulty } = event.data;
+  const response: AiMoveResponse = { id, column: chooseMove(board, player, difficulty) };
+  ctx.postMessage(response);
+};